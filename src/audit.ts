@@ -0,0 +1,442 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import {
+  accessSync,
+  appendFileSync,
+  constants,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { dirname } from "node:path";
+import { userInfo } from "node:os";
+import { AxiosError, AxiosInstance, AxiosResponse } from "axios";
+
+// Audit log configuration; logging is off unless a path is set
+const AUDIT_LOG_PATH = process.env.SAILPOINT_AUDIT_LOG || "";
+const AUDIT_LOG_MAX_BYTES = Number(process.env.SAILPOINT_AUDIT_LOG_MAX_BYTES || 10 * 1024 * 1024);
+const AUDIT_LOG_MAX_FILES = Number(process.env.SAILPOINT_AUDIT_LOG_MAX_FILES || 5);
+const AUDIT_ACTOR = process.env.SAILPOINT_AUDIT_ACTOR || safeUsername();
+// Where the chain's head and tail are recorded, outside the log itself
+const AUDIT_ANCHOR_PATH =
+  process.env.SAILPOINT_AUDIT_ANCHOR || (AUDIT_LOG_PATH ? `${AUDIT_LOG_PATH}.anchor` : "");
+
+// Hash that starts a chain when no previous entry exists
+const GENESIS_HASH = "0".repeat(64);
+
+const SENSITIVE_KEY = /secret|password|token|credential|authorization/i;
+const TARGET_ID_KEY = /^(id|ids|requestedFor)$|Ids?$/;
+
+// One HTTP exchange made while handling a tool call
+interface AuditHttpExchange {
+  method: string;
+  path: string;
+  status?: number;
+  trackingId?: string;
+  // Served from the response cache without contacting the tenant
+  cached?: boolean;
+}
+
+interface AuditCallContext {
+  requests: AuditHttpExchange[];
+}
+
+// Tool call metadata supplied by the caller
+export interface AuditCallInfo {
+  tenant: string;
+  sessionId?: string;
+  // Mutating calls are refused when they cannot be recorded
+  mutating?: boolean;
+}
+
+interface AuditEntry {
+  seq: number;
+  timestamp: string;
+  tool: string;
+  tenant: string;
+  actor: string;
+  sessionId?: string;
+  args: unknown;
+  targetIds: string[];
+  outcome: "success" | "error";
+  error?: string;
+  httpStatus?: number;
+  trackingIds: string[];
+  requests: AuditHttpExchange[];
+  durationMs: number;
+  prevHash: string;
+  hash?: string;
+}
+
+// Both ends of the chain, so entries removed from the start or the end of the log
+// are detected as well as those removed from the middle
+interface AuditAnchor {
+  // Expected seq and prevHash of the oldest retained entry; moves when rotation drops a file
+  head: { seq: number; prevHash: string };
+  // seq and hash of the last entry written
+  tail: { seq: number; hash: string };
+}
+
+const auditContext = new AsyncLocalStorage<AuditCallContext>();
+
+// Chain state, loaded lazily from the anchor or the end of the existing log
+let lastHash: string | null = null;
+let lastSeq = 0;
+let anchor: AuditAnchor | null = null;
+
+function safeUsername(): string {
+  try {
+    return userInfo().username;
+  } catch {
+    return "unknown";
+  }
+}
+
+export function isAuditEnabled(): boolean {
+  return Boolean(AUDIT_LOG_PATH);
+}
+
+// Replace values of credential-like keys anywhere in the arguments
+function redact(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redact);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, v]) => [
+        key,
+        SENSITIVE_KEY.test(key) ? "[REDACTED]" : redact(v),
+      ])
+    );
+  }
+  return value;
+}
+
+// Collect object IDs the call targeted (id, accountId, requestedFor, requestedItems[].id, ...)
+function collectTargetIds(value: unknown, ids: Set<string> = new Set()): Set<string> {
+  if (Array.isArray(value)) {
+    value.forEach((v) => collectTargetIds(v, ids));
+  } else if (value && typeof value === "object") {
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      if (TARGET_ID_KEY.test(key)) {
+        for (const id of Array.isArray(v) ? v : [v]) {
+          if (typeof id === "string" && id) ids.add(id);
+        }
+      } else if (typeof v === "object") {
+        collectTargetIds(v, ids);
+      }
+    }
+  }
+  return ids;
+}
+
+export function trackingIdOf(response: AxiosResponse | undefined): string | undefined {
+  if (!response) return undefined;
+  const fromBody = (response.data as { trackingId?: unknown } | undefined)?.trackingId;
+  const fromHeader = response.headers?.["slpt-request-id"] ?? response.headers?.["x-request-id"];
+  const value = fromBody ?? fromHeader;
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function hashEntry(entry: AuditEntry): string {
+  const { hash: _hash, ...body } = entry;
+  return createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+function rotatedPath(index: number): string {
+  return `${AUDIT_LOG_PATH}.${index}`;
+}
+
+// Last entry of a log file, or undefined when the file is missing or empty
+function lastEntryOf(path: string): AuditEntry | undefined {
+  if (!existsSync(path)) return undefined;
+  const lines = readFileSync(path, "utf8").split("\n").filter(Boolean);
+  if (lines.length === 0) return undefined;
+  try {
+    return JSON.parse(lines[lines.length - 1]) as AuditEntry;
+  } catch {
+    throw new Error(
+      `Audit log ${path} ends with a corrupt entry (line ${lines.length}); run verify_audit_log and restore the file`
+    );
+  }
+}
+
+function readAnchor(): AuditAnchor | null {
+  if (!existsSync(AUDIT_ANCHOR_PATH)) return null;
+  try {
+    return JSON.parse(readFileSync(AUDIT_ANCHOR_PATH, "utf8")) as AuditAnchor;
+  } catch {
+    throw new Error(`Audit anchor ${AUDIT_ANCHOR_PATH} is not valid JSON`);
+  }
+}
+
+function writeAnchor(): void {
+  // Write and rename, so a crash never leaves a half-written anchor
+  const temporary = `${AUDIT_ANCHOR_PATH}.tmp`;
+  writeFileSync(temporary, JSON.stringify(anchor), { mode: 0o600 });
+  renameSync(temporary, AUDIT_ANCHOR_PATH);
+}
+
+// Continue the chain from the anchor, or from the last entry on disk when the log
+// predates its anchor. A corrupt last entry throws rather than restarting the chain.
+function loadChainState(): void {
+  const stored = readAnchor();
+  if (stored) {
+    anchor = stored;
+    lastSeq = stored.tail.seq;
+    lastHash = stored.tail.hash;
+    return;
+  }
+
+  const last = lastEntryOf(AUDIT_LOG_PATH) ?? lastEntryOf(rotatedPath(1));
+  anchor = {
+    head: { seq: 1, prevHash: GENESIS_HASH },
+    tail: { seq: last?.seq ?? 0, hash: last?.hash ?? GENESIS_HASH },
+  };
+  lastSeq = anchor.tail.seq;
+  lastHash = anchor.tail.hash;
+}
+
+// Size-based rotation: audit.jsonl -> audit.jsonl.1 -> ... -> audit.jsonl.N (oldest dropped)
+function rotateIfNeeded(): void {
+  if (!existsSync(AUDIT_LOG_PATH) || statSync(AUDIT_LOG_PATH).size < AUDIT_LOG_MAX_BYTES) {
+    return;
+  }
+  // The oldest file is about to be overwritten, so the chain now starts after its last entry
+  const dropped = rotatedPath(AUDIT_LOG_MAX_FILES);
+  const next = AUDIT_LOG_MAX_FILES > 1 ? rotatedPath(AUDIT_LOG_MAX_FILES - 1) : AUDIT_LOG_PATH;
+  if (anchor && existsSync(dropped) && existsSync(next)) {
+    const last = lastEntryOf(dropped);
+    if (last?.hash) anchor.head = { seq: last.seq + 1, prevHash: last.hash };
+  }
+  for (let i = AUDIT_LOG_MAX_FILES - 1; i >= 1; i--) {
+    if (existsSync(rotatedPath(i))) renameSync(rotatedPath(i), rotatedPath(i + 1));
+  }
+  renameSync(AUDIT_LOG_PATH, rotatedPath(1));
+}
+
+// Load the chain and check the log and anchor can be written, so a call that
+// could not be recorded is known before it runs
+function checkWritable(): void {
+  if (lastHash === null) loadChainState();
+  mkdirSync(dirname(AUDIT_LOG_PATH), { recursive: true });
+  for (const path of [AUDIT_LOG_PATH, AUDIT_ANCHOR_PATH]) {
+    accessSync(existsSync(path) ? path : dirname(path), constants.W_OK);
+  }
+}
+
+function appendEntry(entry: Omit<AuditEntry, "seq" | "prevHash" | "hash">): void {
+  if (lastHash === null) loadChainState();
+
+  const chained: AuditEntry = { seq: lastSeq + 1, ...entry, prevHash: lastHash! };
+  chained.hash = hashEntry(chained);
+
+  mkdirSync(dirname(AUDIT_LOG_PATH), { recursive: true });
+  rotateIfNeeded();
+  // Synchronous append keeps entries in chain order across concurrent calls
+  appendFileSync(AUDIT_LOG_PATH, JSON.stringify(chained) + "\n", { mode: 0o600 });
+
+  lastHash = chained.hash;
+  lastSeq = chained.seq;
+  anchor!.tail = { seq: chained.seq, hash: chained.hash };
+  writeAnchor();
+}
+
+// Record every HTTP exchange against the tool call that made it
+export function installAuditInterceptors(client: AxiosInstance): void {
+  const record = (exchange: AuditHttpExchange) => {
+    auditContext.getStore()?.requests.push(exchange);
+  };
+
+  client.interceptors.response.use(
+    (response) => {
+      record({
+        method: (response.config.method || "get").toUpperCase(),
+        path: response.config.url || "",
+        status: response.status,
+        trackingId: trackingIdOf(response),
+        cached: response.config.cacheHit || undefined,
+      });
+      return response;
+    },
+    (error: unknown) => {
+      if (error instanceof AxiosError && error.config) {
+        record({
+          method: (error.config.method || "get").toUpperCase(),
+          path: error.config.url || "",
+          status: error.response?.status,
+          trackingId: trackingIdOf(error.response),
+        });
+      }
+      throw error;
+    }
+  );
+}
+
+// Run a tool call and append its audit entry, whether it succeeds or fails. A
+// mutating call is refused when the log cannot be loaded or written, and reports
+// an error if its entry could not be appended after all.
+export async function auditToolCall<T>(
+  tool: string,
+  args: Record<string, unknown>,
+  info: AuditCallInfo,
+  run: () => Promise<T>,
+  describeError: (error: unknown) => string
+): Promise<T> {
+  if (!isAuditEnabled()) {
+    return run();
+  }
+
+  try {
+    checkWritable();
+  } catch (error) {
+    if (info.mutating) {
+      throw new Error(
+        `${tool} was refused because the audit log cannot record it: ${errorMessage(error)}. ` +
+        `Run verify_audit_log and restore the log, its anchor, or their permissions.`
+      );
+    }
+    console.error("Audit log unavailable:", error);
+  }
+
+  const context: AuditCallContext = { requests: [] };
+  const started = Date.now();
+  // The error that kept the entry from being written, if any
+  const write = (outcome: "success" | "error", error?: unknown): unknown => {
+    const last = context.requests[context.requests.length - 1];
+    try {
+      appendEntry({
+        timestamp: new Date(started).toISOString(),
+        tool,
+        tenant: info.tenant,
+        actor: AUDIT_ACTOR,
+        sessionId: info.sessionId,
+        args: redact(args),
+        targetIds: [...collectTargetIds(args)],
+        outcome,
+        error: error === undefined ? undefined : describeError(error),
+        httpStatus: last?.status,
+        trackingIds: context.requests.map((r) => r.trackingId).filter((id): id is string => Boolean(id)),
+        requests: context.requests,
+        durationMs: Date.now() - started,
+      });
+      return undefined;
+    } catch (writeError) {
+      console.error("Failed to write audit log entry:", writeError);
+      return writeError;
+    }
+  };
+
+  let result: T;
+  try {
+    result = await auditContext.run(context, run);
+  } catch (error) {
+    write("error", error);
+    throw error;
+  }
+  const writeError = write("success");
+  if (writeError !== undefined && info.mutating) {
+    throw new Error(
+      `${tool} completed, but its audit entry could not be written: ${errorMessage(writeError)}. ` +
+      `Do not repeat the call; restore the audit log and record this change manually.`
+    );
+  }
+  return result;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Check the hash chain across the current log and, optionally, its rotated files,
+// including that its first and last entries match the anchor
+export function verifyAuditLog(includeRotated: boolean): Record<string, unknown> {
+  if (!isAuditEnabled()) {
+    throw new Error("Audit logging is disabled. Set SAILPOINT_AUDIT_LOG to a file path to enable it.");
+  }
+
+  const files: string[] = [];
+  if (includeRotated) {
+    for (let i = AUDIT_LOG_MAX_FILES; i >= 1; i--) {
+      if (existsSync(rotatedPath(i))) files.push(rotatedPath(i));
+    }
+  }
+  if (existsSync(AUDIT_LOG_PATH)) files.push(AUDIT_LOG_PATH);
+
+  let entries = 0;
+  const fail = (file: string, line: number | undefined, reason: string) => ({
+    valid: false,
+    entriesVerified: entries,
+    files,
+    firstInvalid: { file, line, reason },
+  });
+
+  let stored: AuditAnchor | null;
+  // Without the rotated files, the current file continues from the last rotated entry
+  let previous: AuditEntry | null | undefined;
+  try {
+    stored = readAnchor();
+    previous = includeRotated ? null : lastEntryOf(rotatedPath(1)) ?? null;
+  } catch (error) {
+    return fail(AUDIT_ANCHOR_PATH, undefined, error instanceof Error ? error.message : String(error));
+  }
+
+  for (const file of files) {
+    const lines = readFileSync(file, "utf8").split("\n");
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i]) continue;
+
+      let entry: AuditEntry;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        return fail(file, i + 1, "Line is not valid JSON");
+      }
+      if (hashEntry(entry) !== entry.hash) {
+        return fail(file, i + 1, "Entry hash does not match its contents");
+      }
+      // The oldest entry must be where the anchor says the chain starts
+      const expected = previous
+        ? { seq: previous.seq + 1, prevHash: previous.hash }
+        : stored?.head ?? { seq: 1, prevHash: GENESIS_HASH };
+      if (entry.prevHash !== expected.prevHash) {
+        return fail(
+          file,
+          i + 1,
+          previous
+            ? "prevHash does not match the previous entry's hash"
+            : "First entry does not link to the start of the chain; entries were removed from the start of the log"
+        );
+      }
+      if (entry.seq !== expected.seq) {
+        return fail(file, i + 1, `Sequence gap: expected ${expected.seq}, found ${entry.seq}`);
+      }
+      previous = entry;
+      entries++;
+    }
+  }
+
+  const tail = stored?.tail ?? { seq: 0, hash: GENESIS_HASH };
+  const lastSeq = previous?.seq ?? 0;
+  if (!stored && lastSeq > 0) {
+    return fail(AUDIT_ANCHOR_PATH, undefined, "Anchor file is missing, so removed entries cannot be ruled out");
+  }
+  if (lastSeq !== tail.seq || (previous && previous.hash !== tail.hash)) {
+    return fail(
+      AUDIT_LOG_PATH,
+      undefined,
+      lastSeq < tail.seq
+        ? `Log ends at seq ${lastSeq} but the anchor records seq ${tail.seq}; entries were removed from the end of the log`
+        : `Log ends at seq ${lastSeq} but the anchor records seq ${tail.seq} with a different hash`
+    );
+  }
+
+  return {
+    valid: true,
+    entriesVerified: entries,
+    files,
+    lastSeq: previous?.seq ?? null,
+    lastHash: previous?.hash ?? null,
+  };
+}
@@ -0,0 +1,287 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readdirSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig, RawAxiosResponseHeaders } from "axios";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Set when the response is served from the cache without an HTTP request
+    cacheHit?: boolean;
+  }
+}
+
+// Cache configuration; caching is off unless SAILPOINT_CACHE=true, since cached
+// reads can be up to a TTL old
+const CACHE_ENABLED = process.env.SAILPOINT_CACHE === "true";
+const CACHE_MAX_ENTRIES = Number(process.env.SAILPOINT_CACHE_MAX_ENTRIES || 1000);
+const CACHE_MAX_BYTES = Number(process.env.SAILPOINT_CACHE_MAX_BYTES || 50 * 1024 * 1024);
+// Optional directory that keeps entries across restarts
+const CACHE_DIR = process.env.SAILPOINT_CACHE_DIR || "";
+
+// Time to live in seconds per object type (the first path segment after the API
+// version). Types not listed, such as task status and approvals, are never cached.
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  "identities": 60,
+  "public-identities": 60,
+  "accounts": 60,
+  "sources": 300,
+  "roles": 300,
+  "access-profiles": 300,
+  "entitlements": 300,
+  "identity-profiles": 600,
+  "workflows": 300,
+  "transforms": 300,
+  "sod-policies": 300,
+  "campaigns": 60,
+  "search": 30,
+};
+
+// Other types whose entries a write to a type makes stale
+const RELATED_TYPES: Record<string, string[]> = {
+  "sources": ["accounts", "entitlements", "identities", "public-identities"],
+  "access-requests": ["identities", "public-identities"],
+  "access-profiles": ["roles"],
+  "entitlements": ["access-profiles", "roles"],
+};
+
+interface CacheEntry {
+  key: string;
+  type: string;
+  tenant: string;
+  path: string;
+  expiresAt: number;
+  bytes: number;
+  status: number;
+  headers: RawAxiosResponseHeaders;
+  data: unknown;
+}
+
+const entries = new Map<string, CacheEntry>();
+let totalBytes = 0;
+const stats = {
+  hits: 0,
+  misses: 0,
+  evictions: 0,
+  invalidations: 0,
+  byType: {} as Record<string, { hits: number; misses: number }>,
+};
+
+// Set while a tool call asked for noCache
+const bypass = new AsyncLocalStorage<boolean>();
+
+function loadTtls(): Record<string, number> {
+  if (!process.env.SAILPOINT_CACHE_TTLS) return DEFAULT_TTL_SECONDS;
+  try {
+    return { ...DEFAULT_TTL_SECONDS, ...JSON.parse(process.env.SAILPOINT_CACHE_TTLS) };
+  } catch (error) {
+    throw new Error(
+      `Failed to parse SAILPOINT_CACHE_TTLS: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+const ttlSeconds = loadTtls();
+
+// "/v3/accounts/abc/entitlements" -> type "accounts", id "abc"
+function parsePath(url: string): { type: string; id?: string } {
+  const segments = url.split("?")[0].split("/").filter(Boolean);
+  return { type: segments[1] || "", id: segments[2] };
+}
+
+function isRead(config: InternalAxiosRequestConfig): boolean {
+  const method = (config.method || "get").toLowerCase();
+  return method === "get" || config.retrySafe === true;
+}
+
+function cacheKey(tenant: string, config: InternalAxiosRequestConfig): string {
+  const params = config.params ? JSON.stringify(config.params) : "";
+  const body = typeof config.data === "string" ? config.data : config.data ? JSON.stringify(config.data) : "";
+  return `${tenant}|${(config.method || "get").toUpperCase()}|${config.url}|${params}|${body}`;
+}
+
+function diskPath(key: string): string {
+  return join(CACHE_DIR, `${createHash("sha256").update(key).digest("hex")}.json`);
+}
+
+function removeEntry(key: string): void {
+  const entry = entries.get(key);
+  if (!entry) return;
+  entries.delete(key);
+  totalBytes -= entry.bytes;
+  if (CACHE_DIR) {
+    try {
+      unlinkSync(diskPath(key));
+    } catch {
+      // Already gone
+    }
+  }
+}
+
+function addEntry(entry: CacheEntry): void {
+  removeEntry(entry.key);
+  entries.set(entry.key, entry);
+  totalBytes += entry.bytes;
+
+  // Least recently used entries are first in the map
+  while (entries.size > CACHE_MAX_ENTRIES || totalBytes > CACHE_MAX_BYTES) {
+    const oldest = entries.keys().next().value as string;
+    removeEntry(oldest);
+    stats.evictions++;
+  }
+}
+
+// Load unexpired entries persisted by an earlier run
+function loadDiskEntries(): void {
+  if (!CACHE_DIR || !existsSync(CACHE_DIR)) return;
+  const now = Date.now();
+  for (const file of readdirSync(CACHE_DIR)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const entry = JSON.parse(readFileSync(join(CACHE_DIR, file), "utf8")) as CacheEntry;
+      if (entry.expiresAt > now) addEntry(entry);
+      else unlinkSync(join(CACHE_DIR, file));
+    } catch {
+      // Skip unreadable files
+    }
+  }
+}
+
+if (CACHE_ENABLED) loadDiskEntries();
+
+function countLookup(type: string, hit: boolean): void {
+  const counts = (stats.byType[type] ??= { hits: 0, misses: 0 });
+  if (hit) {
+    stats.hits++;
+    counts.hits++;
+  } else {
+    stats.misses++;
+    counts.misses++;
+  }
+}
+
+// Evict entries made stale by a successful write to the given path
+function invalidate(tenant: string, url: string): void {
+  const { type, id } = parsePath(url);
+  const types = new Set([type, "search", ...(RELATED_TYPES[type] ?? [])]);
+
+  // IDs whose entries are stale: the written object and the identity that owns it
+  const ids = new Set<string>();
+  if (id) {
+    ids.add(id);
+    for (const entry of entries.values()) {
+      if (entry.tenant !== tenant || parsePath(entry.path).id !== id) continue;
+      const data = entry.data as Record<string, unknown> | null;
+      const identityId = data?.identityId ?? (data?.identity as Record<string, unknown> | undefined)?.id;
+      if (typeof identityId === "string") ids.add(identityId);
+    }
+  }
+
+  for (const entry of [...entries.values()]) {
+    if (entry.tenant !== tenant) continue;
+    if (types.has(entry.type) || [...ids].some((i) => entry.key.includes(i))) {
+      removeEntry(entry.key);
+      stats.invalidations++;
+    }
+  }
+}
+
+// Run a tool call that reads fresh data; its responses still refresh the cache
+export function withoutCache<T>(run: () => Promise<T>): Promise<T> {
+  return bypass.run(true, run);
+}
+
+// Serve cacheable reads from memory and invalidate entries after writes.
+// Install after the audit and retry interceptors so lookups run first.
+export function installCacheInterceptors(client: AxiosInstance, tenant: string): void {
+  if (!CACHE_ENABLED) return;
+
+  client.interceptors.request.use((config) => {
+    if (!isRead(config)) return config;
+    const { type } = parsePath(config.url || "");
+    if (!ttlSeconds[type] || bypass.getStore()) return config;
+
+    const key = cacheKey(tenant, config);
+    const entry = entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) removeEntry(key);
+      countLookup(type, false);
+      return config;
+    }
+
+    countLookup(type, true);
+    // Re-insert to mark the entry as most recently used
+    entries.delete(key);
+    entries.set(key, entry);
+    config.cacheHit = true;
+    config.adapter = async (): Promise<AxiosResponse> => ({
+      data: structuredClone(entry.data),
+      status: entry.status,
+      statusText: "OK (cached)",
+      headers: { ...entry.headers },
+      config,
+    });
+    return config;
+  });
+
+  client.interceptors.response.use((response) => {
+    const config = response.config;
+    if (config.cacheHit) return response;
+
+    if (!isRead(config)) {
+      invalidate(tenant, config.url || "");
+      return response;
+    }
+
+    const { type } = parsePath(config.url || "");
+    if (!ttlSeconds[type] || response.status !== 200) return response;
+
+    const key = cacheKey(tenant, config);
+    const entry: CacheEntry = {
+      key,
+      type,
+      tenant,
+      path: config.url || "",
+      expiresAt: Date.now() + ttlSeconds[type] * 1000,
+      bytes: JSON.stringify(response.data ?? null).length,
+      status: response.status,
+      headers: { ...(response.headers as RawAxiosResponseHeaders) },
+      data: structuredClone(response.data),
+    };
+    addEntry(entry);
+    if (CACHE_DIR && entries.has(key)) {
+      mkdirSync(CACHE_DIR, { recursive: true });
+      writeFileSync(diskPath(key), JSON.stringify(entry), { mode: 0o600 });
+    }
+    return response;
+  });
+}
+
+// Hit rates and size of the cache, overall and per object type
+export function getCacheStats(): Record<string, unknown> {
+  const lookups = stats.hits + stats.misses;
+  const entriesByType: Record<string, number> = {};
+  for (const entry of entries.values()) {
+    entriesByType[entry.type] = (entriesByType[entry.type] ?? 0) + 1;
+  }
+  return {
+    enabled: CACHE_ENABLED,
+    persistent: Boolean(CACHE_DIR),
+    entries: entries.size,
+    bytes: totalBytes,
+    maxEntries: CACHE_MAX_ENTRIES,
+    maxBytes: CACHE_MAX_BYTES,
+    hits: stats.hits,
+    misses: stats.misses,
+    hitRate: lookups > 0 ? Math.round((stats.hits / lookups) * 1000) / 1000 : null,
+    evictions: stats.evictions,
+    invalidations: stats.invalidations,
+    ttlSeconds,
+    byType: Object.fromEntries(
+      Object.entries(stats.byType).map(([type, counts]) => [
+        type,
+        { ...counts, entries: entriesByType[type] ?? 0 },
+      ])
+    ),
+  };
+}
@@ -0,0 +1,261 @@
+import { AxiosError } from "axios";
+import { trackingIdOf } from "./audit.js";
+import { ArgumentIssue, ArgumentValidationError } from "./validation.js";
+
+// Structured descriptions of tool errors, so agents can branch on the category and
+// follow the hints instead of parsing message text
+
+export type ErrorCategory =
+  | "invalid_arguments"
+  | "bad_request"
+  | "unauthorized"
+  | "forbidden"
+  | "not_found"
+  | "conflict"
+  | "rate_limited"
+  | "server_error"
+  | "network"
+  | "error";
+
+// A tool error as returned to the client
+export interface ToolError {
+  category: ErrorCategory;
+  message: string;
+  status?: number;
+  detailCode?: string;
+  trackingId?: string;
+  method?: string;
+  path?: string;
+  // Whether the same call may succeed if tried again later
+  retryable: boolean;
+  hints: string[];
+  // Object ID a 404 was returned for
+  id?: string;
+  // Request fields a 400 complained about
+  fields?: string[];
+  // Scope the token probably lacks, for 401 and 403
+  requiredScope?: string;
+  issues?: ArgumentIssue[];
+}
+
+// Error body shapes returned by Identity Security Cloud
+interface SailPointErrorBody {
+  detailCode?: string;
+  message?: string;
+  error?: string;
+  messages?: Array<{ text?: string }>;
+  causes?: Array<{ text?: string }>;
+}
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN", "EPIPE", "ECONNABORTED"]);
+
+// API scopes per object type (the first path segment after the API version); reads
+// need the first, writes the second
+const REQUIRED_SCOPES: Record<string, [string, string]> = {
+  "public-identities": ["idn:identity:read", "idn:identity:manage"],
+  "identities": ["idn:identity:read", "idn:identity:manage"],
+  "accounts": ["idn:accounts:read", "idn:accounts:manage"],
+  "access-profiles": ["idn:access-profile:read", "idn:access-profile:manage"],
+  "roles": ["idn:role-unchecked:read", "idn:role-unchecked:manage"],
+  "certifications": ["idn:certification:read", "idn:certification:write"],
+  "campaigns": ["idn:campaign:read", "idn:campaign:manage"],
+  "workflows": ["idn:workflow:read", "idn:workflow:manage"],
+  "sources": ["idn:sources:read", "idn:sources:manage"],
+  "search": ["sp:search:read", "sp:search:read"],
+  "entitlements": ["idn:entitlement:read", "idn:entitlement:manage"],
+  "access-requests": ["idn:access-request:read", "idn:access-request:manage"],
+  "access-request-status": ["idn:access-request-status:read", "idn:access-request-status:read"],
+  "access-request-approvals": ["idn:access-request-approvals:read", "idn:access-request-approvals:manage"],
+  "identity-profiles": ["idn:identity-profile:read", "idn:identity-profile:manage"],
+  "transforms": ["idn:transform:read", "idn:transform:manage"],
+  "sod-policies": ["idn:sod-policy:read", "idn:sod-policy:write"],
+  "sod-violations": ["idn:sod-violation:read", "idn:sod-violation:read"],
+  "sod-violation-report": ["idn:sod-violation:read", "idn:sod-violation:read"],
+  "task-status": ["idn:task-status:read", "idn:task-status:manage"],
+};
+
+// Account state changes have their own scope
+const ACCOUNT_STATE_ACTIONS = new Set(["enable", "disable", "unlock"]);
+
+// Tool that lists valid IDs for each object type, for 404 hints
+const LOOKUP_TOOLS: Record<string, string> = {
+  "public-identities": "list_identities or search",
+  "identities": "list_identities or search",
+  "accounts": "list_accounts",
+  "access-profiles": "list_access_profiles",
+  "roles": "list_roles",
+  "certifications": "list_certifications",
+  "campaigns": "list_certification_campaigns",
+  "workflows": "list_workflows",
+  "sources": "list_sources",
+  "entitlements": "list_entitlements",
+  "access-request-approvals": "list_pending_approvals",
+  "identity-profiles": "list_identity_profiles",
+  "transforms": "list_transforms",
+  "sod-policies": "list_sod_policies",
+  "task-status": "list_source_aggregations",
+};
+
+// "/v3/accounts/abc/disable" -> type "accounts", id "abc", action "disable"
+function parseRequestPath(path: string): { type: string; id?: string; action?: string } {
+  const segments = path.split("?")[0].split("/").filter(Boolean).map(decodeURIComponent);
+  return { type: segments[1] || "", id: segments[2], action: segments[3] };
+}
+
+function requiredScope(method: string, path: string): string | undefined {
+  const { type, action } = parseRequestPath(path);
+  if (type === "accounts" && action && ACCOUNT_STATE_ACTIONS.has(action)) return "idn:accounts-state:manage";
+  const scopes = REQUIRED_SCOPES[type];
+  if (!scopes) return undefined;
+  // Searches and other side-effect-free POSTs only read
+  const read = method === "GET" || type === "search" || action === "predict";
+  return read ? scopes[0] : scopes[1];
+}
+
+// Field names mentioned in 400 messages, e.g. 'Required field "name" was missing'
+function offendingFields(texts: string[]): string[] {
+  const fields = new Set<string>();
+  const patterns = [
+    /\b(?:field|parameter|property|attribute|argument)s?\s+["'`]?([A-Za-z_][\w.[\]]*)["'`]?/gi,
+    /["'`]([A-Za-z_][\w.[\]]*)["'`]\s+(?:is|was|are|must|cannot|can't|should)\b/gi,
+  ];
+  for (const text of texts) {
+    for (const pattern of patterns) {
+      for (const match of text.matchAll(pattern)) {
+        if (!["is", "was", "the", "value"].includes(match[1].toLowerCase())) fields.add(match[1]);
+      }
+    }
+  }
+  return [...fields];
+}
+
+function describeHttpError(error: AxiosError<SailPointErrorBody>): ToolError {
+  const response = error.response;
+  const data = response?.data && typeof response.data === "object" ? response.data : {};
+  const method = (error.config?.method || "get").toUpperCase();
+  const path = error.config?.url;
+  const status = response?.status;
+  const texts = [...(data.messages ?? []), ...(data.causes ?? [])]
+    .map((m) => m.text)
+    .filter((text): text is string => Boolean(text));
+  const message =
+    texts.length > 0
+      ? texts.join("; ")
+      : data.message?.trim() || data.error || (status ? `HTTP ${status}: ${error.message}` : error.message);
+  const trackingId = trackingIdOf(response);
+
+  const described: ToolError = {
+    category: "error",
+    message,
+    status,
+    detailCode: data.detailCode,
+    trackingId,
+    method,
+    path,
+    retryable: status !== undefined ? RETRYABLE_STATUSES.has(status) : RETRYABLE_NETWORK_CODES.has(error.code ?? ""),
+    hints: [],
+  };
+  const retries = error.config?.retryCount;
+
+  if (status === undefined) {
+    described.category = "network";
+    described.hints.push(
+      `No response from the tenant (${error.code ?? error.message}). Check the base URL and network access${
+        retries ? `; the request was already retried ${retries} time(s)` : ""
+      }.`
+    );
+    return described;
+  }
+
+  const { type, id } = parseRequestPath(path ?? "");
+  switch (status) {
+    case 400: {
+      described.category = "bad_request";
+      const fields = offendingFields(texts);
+      if (fields.length > 0) {
+        described.fields = fields;
+        described.hints.push(`The tenant rejected these fields: ${fields.join(", ")}. Correct them and call again.`);
+      } else {
+        described.hints.push("The tenant rejected the request content. Check filters, sorters, and body values.");
+      }
+      break;
+    }
+    case 401:
+    case 403: {
+      described.category = status === 401 ? "unauthorized" : "forbidden";
+      const scope = requiredScope(method, path ?? "");
+      const expired = /expired|invalid.*token|jwt/i.test(message);
+      if (status === 401 && expired) {
+        described.hints.push("The access token was rejected. Check the tenant's credentials with get_auth_status.");
+      } else if (scope) {
+        described.requiredScope = scope;
+        described.hints.push(
+          `Token scope missing: needs ${scope}. Grant it to the personal access token or OAuth client, or ask an administrator for a user level that includes it. get_auth_status lists the scopes the token has.`
+        );
+      } else {
+        described.hints.push("The credentials lack permission for this call. Check the token's scopes and the user's level.");
+      }
+      break;
+    }
+    case 404:
+      described.category = "not_found";
+      if (id) {
+        described.id = id;
+        const lookup = LOOKUP_TOOLS[type];
+        described.hints.push(
+          `No object with ID "${id}" exists in ${type || "this tenant"}.${lookup ? ` Look up valid IDs with ${lookup}.` : ""}`
+        );
+      } else {
+        described.hints.push(`The endpoint ${path} was not found. It may not exist on this tenant's API version.`);
+      }
+      break;
+    case 409:
+      described.category = "conflict";
+      described.hints.push("The object changed or is locked by another operation. Read it again before retrying.");
+      break;
+    case 429:
+      described.category = "rate_limited";
+      described.hints.push(
+        `The tenant's rate limit was exceeded${retries ? ` after ${retries} retries` : ""}. Wait before calling again, or narrow the request.`
+      );
+      break;
+    default:
+      if (status >= 500) {
+        described.category = "server_error";
+        described.hints.push(
+          `The tenant failed to process the request${retries ? ` after ${retries} retries` : ""}.` +
+            (trackingId ? ` Quote trackingId ${trackingId} if you contact SailPoint support.` : "")
+        );
+      }
+  }
+  return described;
+}
+
+// Describe any error thrown while running a tool as a structured ToolError
+export function formatError(error: unknown): ToolError {
+  if (error instanceof ArgumentValidationError) {
+    return {
+      category: "invalid_arguments",
+      message: error.message,
+      retryable: false,
+      hints: ["Fix the listed arguments and call again. Nothing was sent to the tenant."],
+      issues: error.issues,
+    };
+  }
+  if (error instanceof AxiosError) {
+    return describeHttpError(error as AxiosError<SailPointErrorBody>);
+  }
+  return {
+    category: "error",
+    message: error instanceof Error ? error.message : String(error),
+    retryable: false,
+    hints: [],
+  };
+}
+
+// One-line summary of an error, for the audit log
+export function summarizeError(error: unknown): string {
+  const described = formatError(error);
+  return described.status ? `HTTP ${described.status} ${described.category}: ${described.message}` : described.message;
+}
@@ -0,0 +1,109 @@
+import { closeSync, mkdirSync, openSync, writeFileSync, writeSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+
+// Directory for files written by tools (report downloads, exports)
+const EXPORT_DIR = process.env.SAILPOINT_EXPORT_DIR || join(tmpdir(), "sailpoint-mcp-exports");
+
+const PREVIEW_ROWS = 5;
+
+// A file written to the export directory
+export interface ExportedFile {
+  path: string;
+  bytes: number;
+}
+
+// The "export" argument of list and search tools
+export interface ExportOptions {
+  format?: "csv" | "jsonl";
+  fileName?: string;
+  // Dot paths into each result, e.g. "source.name"
+  columns?: string[];
+  // Column headers, one per column; defaults to the paths
+  headers?: string[];
+}
+
+// Writes result pages to an export file as they arrive
+export interface ExportWriter {
+  write(items: unknown[]): void;
+  close(): { path: string; format: string; rowCount: number; columns?: string[]; preview: unknown[] };
+}
+
+function exportPath(fileName: string): string {
+  const safeName = basename(fileName).replace(/[^\w.-]/g, "_") || "export";
+  mkdirSync(EXPORT_DIR, { recursive: true });
+  return join(EXPORT_DIR, safeName);
+}
+
+// Write a file into the export directory; the name is reduced to its base name
+export function writeExportFile(fileName: string, data: Buffer | string): ExportedFile {
+  const path = exportPath(fileName);
+  writeFileSync(path, data, { mode: 0o600 });
+  return { path, bytes: Buffer.byteLength(data) };
+}
+
+function getPath(item: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    item
+  );
+}
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Open an export file; CSV columns default to the top-level fields of the first page
+export function createExportWriter(options: ExportOptions, defaultName: string): ExportWriter {
+  const format = options.format || "csv";
+  if (format !== "csv" && format !== "jsonl") {
+    throw new Error(`Unsupported export format: ${format}. Use csv or jsonl.`);
+  }
+  if (options.headers && options.headers.length !== (options.columns || []).length) {
+    throw new Error("export.headers must have one entry per export.columns entry");
+  }
+
+  const name = options.fileName || `${defaultName}-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  const path = exportPath(name.endsWith(`.${format}`) ? name : `${name}.${format}`);
+  const fd = openSync(path, "w", 0o600);
+  let columns = options.columns;
+  let headers = options.headers;
+  let rowCount = 0;
+  const preview: unknown[] = [];
+
+  // With columns, each row is reduced to those fields under their headers
+  const project = (item: unknown): unknown =>
+    columns
+      ? Object.fromEntries(columns.map((column, i) => [headers?.[i] ?? column, getPath(item, column)]))
+      : item;
+
+  return {
+    write(items) {
+      if (format === "csv" && !columns) {
+        const first = items.find((item) => item && typeof item === "object");
+        if (!first) return;
+        columns = Object.keys(first as Record<string, unknown>);
+      }
+      if (format === "csv" && rowCount === 0 && items.length > 0) {
+        writeSync(fd, (headers ?? columns!).map(csvCell).join(",") + "\n");
+      }
+
+      const lines = items.map((item) => {
+        const row = project(item);
+        if (preview.length < PREVIEW_ROWS) preview.push(row);
+        return format === "csv"
+          ? columns!.map((column) => csvCell(getPath(item, column))).join(",")
+          : JSON.stringify(row);
+      });
+      if (lines.length > 0) writeSync(fd, lines.join("\n") + "\n");
+      rowCount += items.length;
+    },
+    close() {
+      closeSync(fd);
+      return { path, format, rowCount, columns, preview };
+    },
+  };
+}
@@ -0,0 +1,670 @@
+import { ArgumentIssue, ArgumentValidationError, closestMatch } from "./validation.js";
+
+// Local parser and linter for Identity Security Cloud filter and sorter expressions,
+// so syntax mistakes and unsupported fields are reported before the tenant answers 400
+
+// How much of a filter is checked before a list call: "strict" checks syntax and the
+// field tables below, "syntax" only the grammar, "off" nothing
+const FILTER_VALIDATION = process.env.SAILPOINT_FILTER_VALIDATION || "strict";
+
+type ValueType = "string" | "boolean" | "number" | "date";
+
+// A filterable field and the operators the endpoint supports on it
+interface FilterableField {
+  operators: string[];
+  type: ValueType;
+}
+
+// Filterable and sortable fields of a list endpoint
+interface EndpointFields {
+  filters: Record<string, FilterableField>;
+  sorters: string[];
+}
+
+// Binary operators, list operators, then unary operators
+const OPERATORS = ["eq", "ne", "co", "sw", "gt", "ge", "lt", "le", "in", "ca", "isnull", "pr"];
+
+// Symbols and words models reach for instead of ISC operators
+const OPERATOR_ALIASES: Record<string, string> = {
+  "=": "eq",
+  "==": "eq",
+  "!=": "ne",
+  "<>": "ne",
+  ">": "gt",
+  ">=": "ge",
+  "<": "lt",
+  "<=": "le",
+  contains: "co",
+  like: "co",
+  startswith: "sw",
+  "&&": "and",
+  "&": "and",
+  "||": "or",
+  "|": "or",
+  "!": "not",
+};
+
+const field = (type: ValueType, ...operators: string[]): FilterableField => ({ operators, type });
+const DATE_OPERATORS = ["eq", "gt", "ge", "lt", "le"];
+
+// Filterable and sortable fields per endpoint, from the ISC v3 API reference
+const ENDPOINT_FIELDS: Record<string, EndpointFields> = {
+  "public-identities": {
+    filters: {
+      id: field("string", "eq", "in"),
+      alias: field("string", "eq", "sw"),
+      email: field("string", "eq", "sw"),
+      firstname: field("string", "eq", "sw"),
+      lastname: field("string", "eq", "sw"),
+    },
+    sorters: ["name"],
+  },
+  "accounts": {
+    filters: {
+      id: field("string", "eq", "in", "sw"),
+      identityId: field("string", "eq", "in", "sw"),
+      name: field("string", "eq", "in", "sw"),
+      nativeIdentity: field("string", "eq", "in", "sw"),
+      sourceId: field("string", "eq", "in", "sw"),
+      uncorrelated: field("boolean", "eq"),
+      hasEntitlements: field("boolean", "eq"),
+      entitlements: field("boolean", "eq"),
+      origin: field("string", "eq", "in"),
+      manuallyCorrelated: field("boolean", "eq"),
+      "identity.name": field("string", "eq", "in", "sw"),
+      "identity.correlated": field("boolean", "eq"),
+      "identity.identityState": field("string", "eq", "in"),
+      "source.displayableName": field("string", "eq", "in"),
+      "source.authoritative": field("boolean", "eq"),
+      "source.connectionType": field("string", "eq", "in"),
+      "recommendation.method": field("string", "eq", "in", "isnull"),
+      created: field("date", ...DATE_OPERATORS),
+      modified: field("date", ...DATE_OPERATORS),
+    },
+    sorters: [
+      "id", "name", "created", "modified", "sourceId", "identityId", "nativeIdentity", "uuid",
+      "manuallyCorrelated", "entitlements", "origin", "identity.name", "identity.identityState",
+      "source.displayableName", "source.authoritative", "source.connectionType",
+    ],
+  },
+  "access-profiles": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq", "sw"),
+      created: field("date", "gt", "lt", "ge", "le"),
+      modified: field("date", "gt", "lt", "ge", "le"),
+      "owner.id": field("string", "eq", "in"),
+      "source.id": field("string", "eq", "in"),
+      requestable: field("boolean", "eq"),
+    },
+    sorters: ["name", "created", "modified"],
+  },
+  "roles": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq", "sw"),
+      created: field("date", "gt", "lt", "ge", "le"),
+      modified: field("date", "gt", "lt", "ge", "le"),
+      "owner.id": field("string", "eq", "in"),
+      requestable: field("boolean", "eq"),
+      dimensional: field("boolean", "eq"),
+    },
+    sorters: ["name", "created", "modified"],
+  },
+  "certifications": {
+    filters: {
+      id: field("string", "eq", "in"),
+      "campaign.id": field("string", "eq", "in"),
+      phase: field("string", "eq"),
+      completed: field("boolean", "eq", "ne"),
+    },
+    sorters: ["name", "due", "signed"],
+  },
+  "access-review-items": {
+    filters: {
+      id: field("string", "eq", "in"),
+      type: field("string", "eq"),
+      "access.type": field("string", "eq"),
+      completed: field("boolean", "eq", "ne"),
+      "identitySummary.id": field("string", "eq", "in"),
+      "identitySummary.name": field("string", "eq", "sw"),
+      "access.id": field("string", "eq", "in"),
+      "access.name": field("string", "eq", "sw"),
+      "entitlement.sourceName": field("string", "eq", "sw"),
+      "accessProfile.sourceName": field("string", "eq", "sw"),
+    },
+    sorters: [
+      "identitySummary.name", "access.name", "access.type", "entitlement.sourceName",
+      "accessProfile.sourceName",
+    ],
+  },
+  "identity-summaries": {
+    filters: {
+      id: field("string", "eq", "in"),
+      completed: field("boolean", "eq", "ne"),
+      name: field("string", "eq", "sw"),
+    },
+    sorters: ["name"],
+  },
+  "campaigns": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq", "sw"),
+      status: field("string", "eq", "in"),
+    },
+    sorters: ["name", "created"],
+  },
+  "sources": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq", "sw"),
+      type: field("string", "eq", "in"),
+      "owner.id": field("string", "eq", "in"),
+      features: field("string", "ca", "co"),
+      created: field("date", "gt", "lt", "ge", "le"),
+      modified: field("date", "gt", "lt", "ge", "le"),
+      "managementWorkgroup.id": field("string", "eq"),
+      description: field("string", "sw"),
+      authoritative: field("boolean", "eq"),
+      healthy: field("boolean", "isnull"),
+      status: field("string", "eq", "in"),
+      connectionType: field("string", "eq"),
+      connectorName: field("string", "eq"),
+      category: field("string", "eq"),
+    },
+    sorters: [
+      "type", "created", "modified", "name", "owner.name", "healthy", "status", "id", "description",
+      "owner.id", "authoritative", "managementWorkgroup.id", "connectorName", "connectionType",
+    ],
+  },
+  "entitlements": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq", "in", "sw"),
+      type: field("string", "eq", "in"),
+      attribute: field("string", "eq", "in"),
+      value: field("string", "eq", "in", "sw"),
+      "source.id": field("string", "eq", "in"),
+      requestable: field("boolean", "eq"),
+      privileged: field("boolean", "eq"),
+      "owner.id": field("string", "eq", "in"),
+      created: field("date", "gt", "ge", "le", "lt"),
+      modified: field("date", "gt", "ge", "le", "lt"),
+    },
+    sorters: ["id", "name", "created", "modified", "type", "attribute", "value", "source.id", "requestable"],
+  },
+  "identity-profiles": {
+    filters: {
+      id: field("string", "eq", "ne", "ge", "gt", "in", "le", "lt", "isnull", "sw"),
+      name: field("string", "eq", "ne", "ge", "gt", "in", "le", "lt", "isnull", "sw"),
+      priority: field("number", "eq", "ne"),
+    },
+    sorters: ["id", "name", "priority", "created", "modified", "owner.id", "owner.name"],
+  },
+  "transforms": {
+    filters: {
+      internal: field("boolean", "eq"),
+      name: field("string", "eq", "sw"),
+    },
+    sorters: [],
+  },
+  "sod-policies": {
+    filters: {
+      id: field("string", "eq", "in"),
+      name: field("string", "eq"),
+      state: field("string", "eq", "in"),
+    },
+    sorters: ["id", "name", "created", "modified", "description"],
+  },
+};
+
+// Endpoint whose field table applies to each list tool's filters and sorters
+export const FILTER_ENDPOINTS: Record<string, string> = {
+  list_identities: "public-identities",
+  list_accounts: "accounts",
+  list_access_profiles: "access-profiles",
+  list_roles: "roles",
+  list_certifications: "certifications",
+  list_certification_review_items: "access-review-items",
+  list_certification_identity_summaries: "identity-summaries",
+  list_certification_campaigns: "campaigns",
+  list_sources: "sources",
+  list_entitlements: "entitlements",
+  list_identity_profiles: "identity-profiles",
+  list_transforms: "transforms",
+  list_sod_policies: "sod-policies",
+};
+
+// A problem in a filter or sorter expression; position is the 0-based character offset
+export interface ExpressionError {
+  message: string;
+  position: number;
+  suggestion?: string;
+}
+
+interface Token {
+  kind: "word" | "string" | "number" | "date" | "symbol" | "(" | ")" | "," | "end";
+  text: string;
+  position: number;
+  value?: unknown;
+}
+
+const DATE_TOKEN = /^\d{4}-\d{2}-\d{2}(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?/;
+const NUMBER_TOKEN = /^-?\d+(?:\.\d+)?/;
+const WORD_TOKEN = /^[A-Za-z_][\w.]*/;
+const SYMBOL_TOKEN = /^(?:==|!=|<>|>=|<=|&&|\|\||[=<>!&|])/;
+
+// Raised inside the parser at the first syntax error
+class FilterSyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+    readonly suggestion?: string
+  ) {
+    super(message);
+  }
+}
+
+function fail(message: string, position: number, suggestion?: string): never {
+  throw new FilterSyntaxError(message, position, suggestion);
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const rest = expression.slice(i);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      i += space[0].length;
+      continue;
+    }
+
+    const char = expression[i];
+    if (char === "(" || char === ")" || char === ",") {
+      tokens.push({ kind: char, text: char, position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      // Double-quoted string; \" and \\ are the only escapes
+      let value = "";
+      let j = i + 1;
+      for (; j < expression.length && expression[j] !== '"'; j++) {
+        if (expression[j] === "\\" && j + 1 < expression.length) j++;
+        value += expression[j];
+      }
+      if (j >= expression.length) {
+        fail("Unterminated string: add a closing double quote", i, `${expression}"`);
+      }
+      tokens.push({ kind: "string", text: expression.slice(i, j + 1), position: i, value });
+      i = j + 1;
+      continue;
+    }
+
+    if (char === "'" || char === "`") {
+      const end = expression.indexOf(char, i + 1);
+      const text = expression.slice(i + 1, end < 0 ? undefined : end);
+      fail(
+        "Strings must be in double quotes",
+        i,
+        expression.slice(0, i) + JSON.stringify(text) + (end < 0 ? "" : expression.slice(end + 1))
+      );
+    }
+
+    const match = DATE_TOKEN.exec(rest);
+    if (match && /^\d{4}-/.test(rest)) {
+      tokens.push({ kind: "date", text: match[0], position: i, value: match[0] });
+      i += match[0].length;
+      continue;
+    }
+
+    const number = NUMBER_TOKEN.exec(rest);
+    const word = WORD_TOKEN.exec(rest);
+    const symbol = SYMBOL_TOKEN.exec(rest);
+    if (number) {
+      tokens.push({ kind: "number", text: number[0], position: i, value: Number(number[0]) });
+    } else if (word) {
+      tokens.push({ kind: "word", text: word[0], position: i });
+    } else if (symbol) {
+      tokens.push({ kind: "symbol", text: symbol[0], position: i });
+    } else {
+      fail(`Unexpected character "${char}"`, i);
+    }
+    i += tokens[tokens.length - 1].text.length;
+  }
+  tokens.push({ kind: "end", text: "", position: expression.length });
+  return tokens;
+}
+
+// A comparison found while parsing, checked against the field table afterwards
+interface Comparison {
+  field: string;
+  fieldPosition: number;
+  operator: string;
+  operatorPosition: number;
+  values: Token[];
+}
+
+// Recursive descent over: or-expression := and-expression ("or" and-expression)*,
+// and-expression := unary ("and" unary)*, unary := "not" unary | "(" or-expression ")"
+// | field operator value | field ("in" | "ca") "(" value ("," value)* ")" | field ("isnull" | "pr")
+function parse(expression: string): Comparison[] {
+  const tokens = tokenize(expression);
+  const comparisons: Comparison[] = [];
+  let index = 0;
+  const peek = () => tokens[index];
+  const next = () => tokens[index++];
+
+  // Replace the token at a position, for suggestions that fix one token
+  const replaced = (token: Token, text: string) =>
+    expression.slice(0, token.position) + text + expression.slice(token.position + token.text.length);
+
+  const keyword = (token: Token, word: string) => token.kind === "word" && token.text === word;
+
+  const expectValue = (): Token => {
+    const token = next();
+    if (token.kind === "string" || token.kind === "number" || token.kind === "date") return token;
+    if (token.kind === "word" && ["true", "false", "null"].includes(token.text)) {
+      return { ...token, value: token.text === "null" ? null : token.text === "true" };
+    }
+    if (token.kind === "word" && ["TRUE", "FALSE", "True", "False", "NULL", "Null"].includes(token.text)) {
+      fail(`Literals are lowercase`, token.position, replaced(token, token.text.toLowerCase()));
+    }
+    if (token.kind === "word") {
+      fail(`String values must be in double quotes`, token.position, replaced(token, JSON.stringify(token.text)));
+    }
+    if (token.kind === "end") fail("Expected a value at the end of the expression", token.position);
+    return fail(`Expected a value but found "${token.text}"`, token.position);
+  };
+
+  const parseComparison = (): void => {
+    const fieldToken = next();
+    if (fieldToken.kind !== "word") {
+      if (fieldToken.kind === "end") fail("Expected a field name at the end of the expression", fieldToken.position);
+      fail(`Expected a field name but found "${fieldToken.text}"`, fieldToken.position);
+    }
+    if (["and", "or", "not", ...OPERATORS].includes(fieldToken.text)) {
+      fail(`Expected a field name but found the keyword "${fieldToken.text}"`, fieldToken.position);
+    }
+
+    const operatorToken = next();
+    const operator = operatorToken.text;
+    const comparison: Comparison = {
+      field: fieldToken.text,
+      fieldPosition: fieldToken.position,
+      operator,
+      operatorPosition: operatorToken.position,
+      values: [],
+    };
+
+    if (operatorToken.kind !== "word" || !OPERATORS.includes(operator)) {
+      const alias = OPERATOR_ALIASES[operator.toLowerCase()];
+      if (operatorToken.kind === "end") {
+        fail(`Expected an operator after "${fieldToken.text}"`, operatorToken.position);
+      }
+      if (OPERATORS.includes(operator.toLowerCase())) {
+        fail(`Operators are lowercase`, operatorToken.position, replaced(operatorToken, operator.toLowerCase()));
+      }
+      fail(
+        `Unknown operator "${operator}". Operators are ${OPERATORS.join(", ")}`,
+        operatorToken.position,
+        alias && OPERATORS.includes(alias) ? replaced(operatorToken, alias) : undefined
+      );
+    }
+
+    if (operator === "in" || operator === "ca") {
+      const open = next();
+      if (open.kind !== "(") {
+        fail(`"${operator}" takes a parenthesized list, e.g. ${fieldToken.text} ${operator} ("a", "b")`, open.position);
+      }
+      comparison.values.push(expectValue());
+      while (peek().kind === ",") {
+        next();
+        comparison.values.push(expectValue());
+      }
+      const close = next();
+      if (close.kind !== ")") {
+        fail(`Expected "," or ")" in the "${operator}" list but found "${close.text}"`, close.position);
+      }
+    } else if (operator !== "isnull" && operator !== "pr") {
+      comparison.values.push(expectValue());
+    }
+    comparisons.push(comparison);
+  };
+
+  const parseUnary = (): void => {
+    const token = peek();
+    if (keyword(token, "not")) {
+      next();
+      parseUnary();
+    } else if (token.kind === "(") {
+      next();
+      parseOr();
+      const close = next();
+      if (close.kind !== ")") {
+        fail(`Expected ")" to close the "(" at column ${token.position + 1}`, close.position);
+      }
+    } else {
+      parseComparison();
+    }
+  };
+
+  const parseAnd = (): void => {
+    parseUnary();
+    while (keyword(peek(), "and")) {
+      next();
+      parseUnary();
+    }
+  };
+
+  const parseOr = (): void => {
+    parseAnd();
+    while (keyword(peek(), "or")) {
+      next();
+      parseAnd();
+    }
+  };
+
+  if (peek().kind === "end") fail("Filter expression is empty", 0);
+  parseOr();
+
+  const trailing = peek();
+  if (trailing.kind !== "end") {
+    const connective = OPERATOR_ALIASES[trailing.text] ?? trailing.text.toLowerCase();
+    if (connective === "and" || connective === "or") {
+      fail(`Join conditions with lowercase "and" / "or"`, trailing.position, replaced(trailing, connective));
+    }
+    if (trailing.kind === ")") fail(`Unmatched ")"`, trailing.position);
+    fail(`Expected "and", "or" or the end of the expression but found "${trailing.text}"`, trailing.position);
+  }
+  return comparisons;
+}
+
+function checkValueType(comparison: Comparison, expected: ValueType, endpoint: string): ExpressionError[] {
+  const errors: ExpressionError[] = [];
+  for (const value of comparison.values) {
+    const actual =
+      value.kind === "string"
+        ? expected === "date" && DATE_TOKEN.test(String(value.value))
+          ? "date"
+          : "string"
+        : value.kind === "date"
+          ? "date"
+          : value.kind === "number"
+            ? "number"
+            : value.value === null
+              ? "null"
+              : "boolean";
+    if (actual === expected || actual === "null") continue;
+
+    let suggestion: string | undefined;
+    if (expected === "boolean" && value.kind === "string" && ["true", "false"].includes(String(value.value))) {
+      suggestion = String(value.value);
+    } else if (expected === "string" && value.kind !== "string") {
+      suggestion = JSON.stringify(value.text);
+    }
+    errors.push({
+      message:
+        `${comparison.field} on ${endpoint} takes ${expected === "date" ? "an ISO 8601 date" : `a ${expected}`}` +
+        ` value, not ${value.text}` +
+        (suggestion ? `; use ${suggestion}` : ""),
+      position: value.position,
+    });
+  }
+  return errors;
+}
+
+// Check a filter expression's syntax and, when an endpoint is given, its fields and operators
+export function lintFilter(expression: string, endpoint?: string): ExpressionError[] {
+  let comparisons: Comparison[];
+  try {
+    comparisons = parse(expression);
+  } catch (error) {
+    if (error instanceof FilterSyntaxError) {
+      return [{ message: error.message, position: error.position, suggestion: error.suggestion }];
+    }
+    throw error;
+  }
+
+  const table = endpoint ? ENDPOINT_FIELDS[endpoint] : undefined;
+  if (!table) return [];
+
+  const errors: ExpressionError[] = [];
+  const fieldNames = Object.keys(table.filters);
+  for (const comparison of comparisons) {
+    const spec = table.filters[comparison.field];
+    if (!spec) {
+      const suggestion = closestMatch(comparison.field, fieldNames);
+      errors.push({
+        message: `${comparison.field} is not filterable on ${endpoint}. Filterable fields: ${fieldNames.join(", ")}`,
+        position: comparison.fieldPosition,
+        suggestion:
+          suggestion &&
+          expression.slice(0, comparison.fieldPosition) +
+            suggestion +
+            expression.slice(comparison.fieldPosition + comparison.field.length),
+      });
+      continue;
+    }
+    if (!spec.operators.includes(comparison.operator)) {
+      errors.push({
+        message: `${comparison.field} on ${endpoint} supports ${spec.operators.join(", ")}, not ${comparison.operator}`,
+        position: comparison.operatorPosition,
+      });
+      continue;
+    }
+    errors.push(...checkValueType(comparison, spec.type, endpoint!));
+  }
+  return errors;
+}
+
+// Check a sorters expression: comma-separated fields, each optionally prefixed with "-"
+export function lintSorters(expression: string, endpoint?: string): ExpressionError[] {
+  const errors: ExpressionError[] = [];
+  const table = endpoint ? ENDPOINT_FIELDS[endpoint] : undefined;
+  let position = 0;
+  for (const part of expression.split(",")) {
+    const start = position + (part.length - part.trimStart().length);
+    position += part.length + 1;
+    const sorter = part.trim();
+    const name = sorter.replace(/^[-+]/, "");
+    // The whole expression with this sorter replaced
+    const replaced = (text: string) => expression.slice(0, start) + text + expression.slice(start + sorter.length);
+
+    if (!sorter) {
+      errors.push({ message: "Empty sort field", position: start });
+    } else if (sorter.startsWith("+")) {
+      errors.push({
+        message: `Ascending order is the default; drop the "+"`,
+        position: start,
+        suggestion: replaced(name),
+      });
+    } else if (!/^[A-Za-z_][\w.]*$/.test(name)) {
+      errors.push({ message: `Invalid sort field "${sorter}"; use name or -name for descending`, position: start });
+    } else if (table && !table.sorters.includes(name)) {
+      const suggestion = closestMatch(name, table.sorters);
+      errors.push({
+        message:
+          table.sorters.length > 0
+            ? `${name} is not sortable on ${endpoint}. Sortable fields: ${table.sorters.join(", ")}`
+            : `${endpoint} does not support sorting`,
+        position: start,
+        suggestion: suggestion && replaced(sorter.replace(name, suggestion)),
+      });
+    }
+  }
+  return errors;
+}
+
+// Filterable and sortable fields of an endpoint, for the validate_filter tool
+export function describeEndpointFields(endpoint: string): Record<string, unknown> | undefined {
+  const table = ENDPOINT_FIELDS[endpoint];
+  if (!table) return undefined;
+  return {
+    filterable: Object.fromEntries(
+      Object.entries(table.filters).map(([name, spec]) => [name, `${spec.type}: ${spec.operators.join(", ")}`])
+    ),
+    sortable: table.sorters,
+  };
+}
+
+// Report for the validate_filter tool: errors with columns and the text they point at
+export function validateFilterExpressions(
+  toolName: string | undefined,
+  filters: string | undefined,
+  sorters: string | undefined
+): Record<string, unknown> {
+  const endpoint = toolName ? FILTER_ENDPOINTS[toolName] : undefined;
+  const report = (expression: string, errors: ExpressionError[]) => ({
+    expression,
+    valid: errors.length === 0,
+    errors: errors.map((error) => ({
+      message: error.message,
+      column: error.position + 1,
+      near: expression.slice(error.position, error.position + 20),
+      suggestion: error.suggestion,
+    })),
+  });
+
+  const filterReport = filters !== undefined ? report(filters, lintFilter(filters, endpoint)) : undefined;
+  const sorterReport = sorters !== undefined ? report(sorters, lintSorters(sorters, endpoint)) : undefined;
+  return {
+    valid: filterReport?.valid !== false && sorterReport?.valid !== false,
+    tool: toolName,
+    endpoint,
+    // Without a known endpoint only the syntax can be checked
+    checkedFields: Boolean(endpoint),
+    filters: filterReport,
+    sorters: sorterReport,
+    fields: endpoint ? describeEndpointFields(endpoint) : undefined,
+  };
+}
+
+function toIssue(argument: string, expression: string, error: ExpressionError): ArgumentIssue {
+  return {
+    path: argument,
+    message: `${error.message} (column ${error.position + 1} of ${JSON.stringify(expression)})`,
+    received: expression,
+    suggestion: error.suggestion,
+  };
+}
+
+// Lint the filters and sorters arguments of a list tool call, throwing
+// ArgumentValidationError so nothing is sent when they are malformed
+export function checkFilterArguments(toolName: string, args: Record<string, unknown>): void {
+  if (FILTER_VALIDATION === "off") return;
+  const endpoint = FILTER_VALIDATION === "strict" ? FILTER_ENDPOINTS[toolName] : undefined;
+
+  const issues: ArgumentIssue[] = [];
+  if (typeof args.filters === "string" && args.filters.trim()) {
+    issues.push(...lintFilter(args.filters, endpoint).map((error) => toIssue("filters", args.filters as string, error)));
+  }
+  if (typeof args.sorters === "string" && args.sorters.trim()) {
+    issues.push(...lintSorters(args.sorters, endpoint).map((error) => toIssue("sorters", args.sorters as string, error)));
+  }
+  if (issues.length > 0) {
+    throw new ArgumentValidationError(toolName, issues);
+  }
+}
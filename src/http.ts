@@ -0,0 +1,215 @@
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// HTTP transport configuration
+const MCP_HTTP_HOST = process.env.MCP_HTTP_HOST || "127.0.0.1";
+const MCP_HTTP_PORT = Number(process.env.MCP_HTTP_PORT || 3000);
+// One or more comma-separated tokens accepted as a bearer token or X-API-Key
+const MCP_HTTP_AUTH_TOKENS = (process.env.MCP_HTTP_AUTH_TOKEN || "")
+  .split(",")
+  .map((token) => token.trim())
+  .filter(Boolean);
+
+// Sessions without a request for this long are closed, since clients that
+// disconnect without closing their session would otherwise be kept forever
+const MCP_HTTP_SESSION_IDLE_MS = Number(process.env.MCP_HTTP_SESSION_IDLE_SECONDS || 1800) * 1000;
+
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Compare secrets without leaking their length or contents through timing
+const digest = (value: string) => createHash("sha256").update(value).digest();
+const acceptedTokenDigests = MCP_HTTP_AUTH_TOKENS.map(digest);
+
+function isAuthorized(req: IncomingMessage): boolean {
+  const header = req.headers.authorization;
+  const apiKey = req.headers["x-api-key"];
+  const presented =
+    header && header.toLowerCase().startsWith("bearer ")
+      ? header.slice(7).trim()
+      : typeof apiKey === "string"
+        ? apiKey
+        : undefined;
+  if (!presented) return false;
+
+  const presentedDigest = digest(presented);
+  return acceptedTokenDigests.some((accepted) => timingSafeEqual(accepted, presentedDigest));
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error(`Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+// Serve the MCP server over Streamable HTTP (/mcp) and legacy SSE (/sse + /messages).
+// Each session gets its own Server built by createServer, sharing the process's
+// SailPoint credentials, token cache and HTTP client.
+export async function startHttpServer(createServer: () => Server): Promise<void> {
+  if (acceptedTokenDigests.length === 0) {
+    throw new Error(
+      "MCP_HTTP_AUTH_TOKEN must be set when MCP_TRANSPORT=http. " +
+      "Clients authenticate with 'Authorization: Bearer <token>' or 'X-API-Key: <token>'."
+    );
+  }
+
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  // When each session, of either kind, last received a request
+  const lastSeen = new Map<string, number>();
+  const touch = (sessionId: string) => lastSeen.set(sessionId, Date.now());
+
+  const handleStreamable = async (req: IncomingMessage, res: ServerResponse) => {
+    const sessionId = req.headers["mcp-session-id"];
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+
+    if (typeof sessionId === "string") {
+      const transport = streamableTransports.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+        return;
+      }
+      touch(sessionId);
+      await transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, "Missing Mcp-Session-Id header on a non-initialize request");
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, transport);
+        touch(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        lastSeen.delete(transport.sessionId);
+      }
+    };
+
+    await createServer().connect(transport);
+    try {
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected initialize leaves a transport no later request can reach
+      if (!transport.sessionId) await transport.close().catch(() => undefined);
+    }
+  };
+
+  const handleSseConnect = async (res: ServerResponse) => {
+    const transport = new SSEServerTransport("/messages", res);
+    sseTransports.set(transport.sessionId, transport);
+    touch(transport.sessionId);
+    res.on("close", () => {
+      sseTransports.delete(transport.sessionId);
+      lastSeen.delete(transport.sessionId);
+    });
+    await createServer().connect(transport);
+  };
+
+  const handleSseMessage = async (req: IncomingMessage, res: ServerResponse, url: URL) => {
+    const sessionId = url.searchParams.get("sessionId") || "";
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 404, `Unknown session: ${sessionId}`);
+      return;
+    }
+    touch(sessionId);
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  };
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url || "/", `http://${req.headers.host || "localhost"}`);
+
+    try {
+      if (url.pathname === "/health" && req.method === "GET") {
+        sendJson(res, 200, {
+          status: "ok",
+          sessions: streamableTransports.size + sseTransports.size,
+        });
+        return;
+      }
+
+      if (!isAuthorized(req)) {
+        res.setHeader("WWW-Authenticate", 'Bearer realm="sailpoint-mcp"');
+        sendJsonRpcError(res, 401, "Unauthorized");
+        return;
+      }
+
+      if (url.pathname === "/mcp") {
+        await handleStreamable(req, res);
+      } else if (url.pathname === "/sse" && req.method === "GET") {
+        await handleSseConnect(res);
+      } else if (url.pathname === "/messages" && req.method === "POST") {
+        await handleSseMessage(req, res, url);
+      } else {
+        sendJsonRpcError(res, 404, `Not found: ${req.method} ${url.pathname}`);
+      }
+    } catch (error) {
+      console.error("HTTP transport error:", error);
+      if (!res.headersSent) {
+        const status = error instanceof SyntaxError ? 400 : 500;
+        sendJsonRpcError(res, status, error instanceof Error ? error.message : String(error));
+      }
+    }
+  });
+
+  // Close sessions idle for longer than MCP_HTTP_SESSION_IDLE_SECONDS
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - MCP_HTTP_SESSION_IDLE_MS;
+    for (const [sessionId, seen] of lastSeen) {
+      if (seen > cutoff) continue;
+      const transport = streamableTransports.get(sessionId) ?? sseTransports.get(sessionId);
+      streamableTransports.delete(sessionId);
+      sseTransports.delete(sessionId);
+      lastSeen.delete(sessionId);
+      transport?.close().catch(() => undefined);
+    }
+  }, Math.min(MCP_HTTP_SESSION_IDLE_MS, 60000));
+  sweep.unref();
+
+  const shutdown = async () => {
+    clearInterval(sweep);
+    for (const transport of [...streamableTransports.values(), ...sseTransports.values()]) {
+      await transport.close().catch(() => undefined);
+    }
+    httpServer.close(() => process.exit(0));
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+
+  await new Promise<void>((resolve) => {
+    httpServer.listen(MCP_HTTP_PORT, MCP_HTTP_HOST, resolve);
+  });
+  console.error(`SailPoint MCP Server listening on http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT} (/mcp, /sse, /health)`);
+}
@@ -4,136 +4,1082 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
   Tool,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosInstance, AxiosError } from "axios";
+import { AxiosInstance } from "axios";
+import { auditToolCall, verifyAuditLog } from "./audit.js";
+import { getCacheStats, withoutCache } from "./cache.js";
+import { createExportWriter, ExportOptions, writeExportFile } from "./exports.js";
+import { formatError, summarizeError, ToolError } from "./errors.js";
+import { checkFilterArguments, FILTER_ENDPOINTS, validateFilterExpressions } from "./filters.js";
+import { startHttpServer } from "./http.js";
+import { formatToolResult } from "./output.js";
+import { getPrompt, prompts } from "./prompts.js";
+import {
+  checkQueryOrWhere,
+  compileSearchQuery,
+  CompiledSearchQuery,
+  CONDITION_OPERATORS,
+  NESTED_PATHS,
+  searchQueryBody,
+} from "./queries.js";
+import {
+  completeResourceArgument,
+  listResources,
+  readResource,
+  resourceTemplates,
+} from "./resources.js";
+import {
+  captureRequests,
+  consumeConfirmationToken,
+  hashPlan,
+  issueConfirmationToken,
+  READ_ONLY,
+  REQUIRE_CONFIRMATION,
+} from "./safety.js";
+import {
+  getApiClient,
+  getAuthStatus,
+  listTenants,
+  resolveTenant,
+  TenantProfile,
+  validateCredentials,
+} from "./tenants.js";
+import {
+  evaluateTransform,
+  PREVIEWABLE_TRANSFORM_TYPES,
+  TransformDefinition,
+  TransformSample,
+} from "./transforms.js";
+import { ArgumentValidationError, encodePath, ID_PATTERN, validateArguments } from "./validation.js";
 
 // Environment variables
-const SAILPOINT_BASE_URL = process.env.SAILPOINT_BASE_URL || "";
-const SAILPOINT_CLIENT_ID = process.env.SAILPOINT_CLIENT_ID || "";
-const SAILPOINT_CLIENT_SECRET = process.env.SAILPOINT_CLIENT_SECRET || "";
-const SAILPOINT_API_VERSION = process.env.SAILPOINT_API_VERSION || "v3"; // v3 or v2025
-
-// Token cache
-let accessToken: string | null = null;
-let tokenExpiry: number = 0;
-
-// Singleton axios instance with connection pooling
-let apiClient: AxiosInstance | null = null;
-
-// Create or get cached axios instance with connection pooling
-const getApiClient = async (): Promise<AxiosInstance> => {
-  // Update token if needed
-  const token = await getAccessToken();
-
-  // Create singleton instance with connection pooling
-  if (!apiClient) {
-    apiClient = axios.create({
-      baseURL: SAILPOINT_BASE_URL,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      // Enable HTTP Keep-Alive for connection pooling
-      httpAgent: new (await import('http')).Agent({
-        keepAlive: true,
-        keepAliveMsecs: 30000,
-        maxSockets: 50,
-        maxFreeSockets: 10
-      }),
-      httpsAgent: new (await import('https')).Agent({
-        keepAlive: true,
-        keepAliveMsecs: 30000,
-        maxSockets: 50,
-        maxFreeSockets: 10
-      }),
-      timeout: 30000, // 30 second timeout
-    });
+const MCP_TRANSPORT = process.env.MCP_TRANSPORT || "stdio"; // stdio or http
+
+// Auto-pagination defaults
+const DEFAULT_MAX_ITEMS = 1000;
+const LIST_PAGE_SIZE = 250;
+const SEARCH_PAGE_SIZE = 1000;
+const DEFAULT_MAX_EXPORT_ITEMS = 100000;
+
+// Read a (possibly nested) field from a result object using a dot path
+function getFieldValue(item: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    item
+  );
+}
+
+// Helper to call a list endpoint, following offset pagination when fetchAll is set
+// or streaming every page to a file when export is set
+async function fetchList(
+  api: AxiosInstance,
+  path: string,
+  params: Record<string, string | number>,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  if (!args.fetchAll && !args.export) {
+    const response = await api.get(path, { params });
+    return response.data;
   }
 
-  // Update authorization header with current token
-  apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+  const exporter = args.export
+    ? createExportWriter(args.export as ExportOptions, path.split("/").pop() || "export")
+    : null;
+  const maxItems =
+    (args.maxItems as number) || (exporter ? DEFAULT_MAX_EXPORT_ITEMS : DEFAULT_MAX_ITEMS);
+  const pageSize = Math.min((params.limit as number) || LIST_PAGE_SIZE, LIST_PAGE_SIZE);
+  const items: unknown[] = [];
+  let count = 0;
+  let offset = (params.offset as number) || 0;
+  let totalCount: number | undefined;
+  let truncated = false;
+  let pages = 0;
 
-  return apiClient;
-};
+  try {
+    while (count < maxItems) {
+      const limit = Math.min(pageSize, maxItems - count);
+      const response = await api.get(path, {
+        params: { ...params, limit, offset, count: true },
+      });
+      pages++;
 
-// OAuth2 token management
-async function getAccessToken(): Promise<string> {
-  const now = Date.now();
+      // Endpoints that return a single object rather than a page are passed through
+      if (!Array.isArray(response.data)) {
+        if (exporter) throw new Error(`${path} does not return a list and cannot be exported`);
+        return response.data;
+      }
+
+      const header = response.headers["x-total-count"];
+      if (header !== undefined) totalCount = Number(header);
+
+      if (exporter) exporter.write(response.data);
+      else items.push(...response.data);
+      count += response.data.length;
+      offset += response.data.length;
+      if (response.data.length < limit) break;
+    }
 
-  // Return cached token if still valid (with 60 second buffer)
-  if (accessToken && tokenExpiry > now + 60000) {
-    return accessToken;
+    if (count >= maxItems) {
+      if (totalCount !== undefined) {
+        truncated = totalCount > offset;
+      } else {
+        // No total count available, so probe for one more row
+        const probe = await api.get(path, {
+          params: { ...params, limit: 1, offset },
+        });
+        truncated = Array.isArray(probe.data) && probe.data.length > 0;
+      }
+    }
+  } catch (error) {
+    exporter?.close();
+    throw error;
   }
 
-  // Request new token
-  const tokenUrl = `${SAILPOINT_BASE_URL}/oauth/token`;
-  const params = new URLSearchParams({
-    grant_type: "client_credentials",
-    client_id: SAILPOINT_CLIENT_ID,
-    client_secret: SAILPOINT_CLIENT_SECRET,
-  });
+  if (exporter) {
+    return { ...exporter.close(), totalCount, truncated, pages };
+  }
+  return {
+    items,
+    count: items.length,
+    totalCount,
+    truncated,
+    pages,
+  };
+}
+
+// Helper to run a search, following searchAfter cursors when fetchAll is set
+// or streaming every page to a file when export is set
+async function fetchSearch(
+  api: AxiosInstance,
+  path: string,
+  body: Record<string, unknown>,
+  args: Record<string, unknown>
+): Promise<unknown> {
+  if (!args.fetchAll && !args.export) {
+    const params: Record<string, number | boolean> = {};
+    if (args.limit) params.limit = args.limit as number;
+    params.count = true;
+
+    const response = await api.post(path, body, { params, retrySafe: true });
+    return {
+      results: response.data,
+      totalCount: response.headers["x-total-count"],
+    };
+  }
+
+  const indices = (body.indices as string[] | undefined) ?? [];
+  const exporter = args.export
+    ? createExportWriter(args.export as ExportOptions, `search-${indices.join("-") || "results"}`)
+    : null;
+
+  // searchAfter needs a total order, so "id", unique across every index, breaks ties
+  const requestedSort = (body.sort as string[] | undefined) ?? [];
+  const sort = requestedSort.some((field) => field.replace(/^[-+]/, "") === "id")
+    ? requestedSort
+    : [...requestedSort, "id"];
+  const sortFields = sort.map((field) => field.replace(/^[-+]/, ""));
+  const maxItems =
+    (args.maxItems as number) || (exporter ? DEFAULT_MAX_EXPORT_ITEMS : DEFAULT_MAX_ITEMS);
+  const pageSize = Math.min((args.limit as number) || SEARCH_PAGE_SIZE, 10000);
+  const results: unknown[] = [];
+  let count = 0;
+  let searchAfter = body.searchAfter as string[] | undefined;
+  let totalCount: number | undefined;
+  let truncated = false;
+  let pages = 0;
 
   try {
-    const response = await axios.post(tokenUrl, params.toString(), {
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-    });
+    while (count < maxItems) {
+      const limit = Math.min(pageSize, maxItems - count);
+      const pageBody: Record<string, unknown> = { ...body, sort };
+      if (searchAfter) pageBody.searchAfter = searchAfter;
+
+      const response = await api.post(path, pageBody, {
+        params: { limit, count: true },
+        retrySafe: true,
+      });
+      pages++;
+
+      const header = response.headers["x-total-count"];
+      if (header !== undefined && totalCount === undefined) totalCount = Number(header);
 
-    accessToken = response.data.access_token;
-    // Set expiry based on expires_in (default to 12 minutes if not provided)
-    const expiresIn = response.data.expires_in || 720;
-    tokenExpiry = now + expiresIn * 1000;
+      const page = response.data as unknown[];
+      if (exporter) exporter.write(page);
+      else results.push(...page);
+      count += page.length;
+      if (page.length < limit) break;
 
-    return accessToken!;
+      const last = page[page.length - 1];
+      searchAfter = sortFields.map((field) => String(getFieldValue(last, field) ?? ""));
+    }
+
+    if (count >= maxItems) {
+      if (totalCount !== undefined) {
+        truncated = totalCount > count;
+      } else {
+        // No total count available, so probe for one more row past the last cursor
+        const probe = await api.post(
+          path,
+          { ...body, sort, searchAfter },
+          { params: { limit: 1 }, retrySafe: true }
+        );
+        truncated = Array.isArray(probe.data) && probe.data.length > 0;
+      }
+    }
   } catch (error) {
-    const axiosError = error as AxiosError;
-    throw new Error(
-      `Failed to obtain access token: ${axiosError.message}`
-    );
+    exporter?.close();
+    throw error;
+  }
+
+  if (exporter) {
+    return { ...exporter.close(), totalCount, truncated, pages };
   }
+  return {
+    results,
+    count: results.length,
+    totalCount,
+    truncated,
+    pages,
+  };
+}
+
+// Access request states that mean the request is still in flight
+const PENDING_REQUEST_STATES = new Set(["EXECUTING", "PROVISIONING_VERIFICATION_PENDING"]);
+
+// Most accounts the composite tools read for one identity
+const MAX_IDENTITY_ACCOUNTS = 10000;
+
+// Most per-item lookups a composite tool has in flight at once
+const LOOKUP_CONCURRENCY = 8;
+
+// Like Promise.allSettled over items.map(fn), but with at most limit calls in flight
+async function settleConcurrently<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const results: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      try {
+        results[i] = { status: "fulfilled", value: await fn(items[i]) };
+      } catch (reason) {
+        results[i] = { status: "rejected", reason };
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// A sub-lookup of a composite tool that failed
+interface SubCallError {
+  call: string;
+  error: ToolError;
 }
 
-// Helper to format API errors
-function formatError(error: unknown): string {
-  if (axios.isAxiosError(error)) {
-    const axiosError = error as AxiosError<{ message?: string; detailCode?: string; messages?: Array<{ text: string }> }>;
-    const data = axiosError.response?.data;
-    if (data?.messages && Array.isArray(data.messages)) {
-      return data.messages.map((m) => m.text).join("; ");
+// Build the identity 360 view from concurrent lookups, reporting failed ones
+async function getIdentityAccessSummary(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  identityId: string,
+  includeEntitlements: boolean
+): Promise<Record<string, unknown>> {
+  const errors: SubCallError[] = [];
+  const settle = <T>(call: string, result: PromiseSettledResult<T>): T | undefined => {
+    if (result.status === "fulfilled") return result.value;
+    errors.push({ call, error: formatError(result.reason) });
+    return undefined;
+  };
+
+  const [identityResult, accountsResult, requestsResult] =
+    await Promise.allSettled([
+      api.post(
+        apiPath("/v3/search"),
+        { indices: ["identities"], query: { query: `id:"${identityId}"` } },
+        { params: { limit: 1 }, retrySafe: true }
+      ),
+      fetchList(
+        api,
+        apiPath("/v3/accounts"),
+        { filters: `identityId eq "${identityId}"` },
+        { fetchAll: true, maxItems: MAX_IDENTITY_ACCOUNTS }
+      ),
+      api.get(apiPath("/v3/access-request-status"), {
+        params: { "requested-for": identityId, limit: 250 },
+      }),
+    ]);
+
+  const identityDoc = settle("identity", identityResult)?.data?.[0] as
+    | Record<string, unknown>
+    | undefined;
+  if (identityResult.status === "fulfilled" && !identityDoc) {
+    throw new Error(`Identity not found: ${identityId}`);
+  }
+  const accountList = settle("accounts", accountsResult) as
+    | { items?: unknown[]; truncated?: boolean }
+    | undefined;
+  const accounts = (accountList?.items ?? []) as Array<Record<string, unknown>>;
+  const requests = (settle("accessRequests", requestsResult)?.data ?? []) as Array<
+    Record<string, unknown>
+  >;
+
+  const access = (identityDoc?.access ?? []) as Array<Record<string, unknown>>;
+
+  // Conflicts among the entitlements the identity already holds, and entitlements
+  // per account fetched a few at a time, once the identity and accounts are known
+  const heldEntitlementIds = access
+    .filter((item) => item.type === "ENTITLEMENT" && item.id)
+    .map((item) => item.id as string);
+  const [sodResult, entitlementResults] = await Promise.all([
+    identityDoc
+      ? Promise.allSettled([predictSodViolations(api, apiPath, identityId, heldEntitlementIds)])
+      : Promise.resolve([]),
+    includeEntitlements
+      ? settleConcurrently(accounts, LOOKUP_CONCURRENCY, (account) =>
+          api.get(apiPath(encodePath`/v3/accounts/${account.id}/entitlements`), {
+            params: { limit: 250 },
+          })
+        )
+      : Promise.resolve([]),
+  ]);
+  const sodViolations = sodResult[0] ? (settle("sodViolations", sodResult[0]) ?? []) : [];
+
+  const accountsBySource: Record<string, unknown[]> = {};
+  accounts.forEach((account, i) => {
+    const source =
+      (account.sourceName as string) ||
+      ((account.source as Record<string, unknown> | undefined)?.name as string) ||
+      (account.sourceId as string) ||
+      "Unknown source";
+    const entry: Record<string, unknown> = {
+      id: account.id,
+      name: account.name,
+      nativeIdentity: account.nativeIdentity,
+      disabled: account.disabled,
+      locked: account.locked,
+    };
+    if (includeEntitlements) {
+      const entitlements = settle(`entitlements:${account.id}`, entitlementResults[i]);
+      entry.entitlements = entitlements?.data ?? null;
     }
-    if (data?.message) {
-      return `${data.detailCode || "Error"}: ${data.message}`;
+    (accountsBySource[source] ??= []).push(entry);
+  });
+
+  // Access granted through a completed access request is attributed to it
+  const requestedItemIds = new Map<string, string>();
+  for (const request of requests) {
+    if (request.state !== "REQUEST_COMPLETED") continue;
+    const item = request.requestedObject as Record<string, unknown> | undefined;
+    if (item?.id) requestedItemIds.set(item.id as string, request.accessRequestId as string);
+  }
+  const grantedBy = (item: Record<string, unknown>) => {
+    if (requestedItemIds.has(item.id as string)) {
+      return { type: "ACCESS_REQUEST", accessRequestId: requestedItemIds.get(item.id as string) };
     }
-    return `HTTP ${axiosError.response?.status}: ${axiosError.message}`;
+    if (item.standalone === false) return { type: "ROLE_OR_ACCESS_PROFILE" };
+    return null;
+  };
+  const accessOfType = (type: string) =>
+    access
+      .filter((item) => item.type === type)
+      .map((item) => ({ ...item, grantedBy: grantedBy(item) }));
+
+  const identity = identityDoc ? { ...identityDoc } : null;
+  if (identity) {
+    delete identity.access;
+    delete identity.accounts;
   }
-  return String(error);
+
+  return {
+    identity,
+    accountCount: accounts.length,
+    ...(accountList?.truncated && {
+      accountsTruncated: true,
+      warning: `Only the first ${MAX_IDENTITY_ACCOUNTS} accounts are listed; use list_accounts with filters to see the rest.`,
+    }),
+    accountsBySource,
+    roles: accessOfType("ROLE"),
+    accessProfiles: accessOfType("ACCESS_PROFILE"),
+    pendingRequests: requests.filter((r) => PENDING_REQUEST_STATES.has(r.state as string)),
+    sodViolations,
+    errors,
+  };
+}
+
+// One step of an offboarding plan
+interface OffboardingStep {
+  action: "DISABLE_ACCOUNT" | "REMOVE_ACCESS";
+  type: "ACCOUNT" | "ROLE" | "ACCESS_PROFILE";
+  id: string;
+  name?: string;
+  source?: string;
 }
 
-// Helper to validate credentials before making API calls
-function validateCredentials(): void {
-  const missingVars: string[] = [];
+// Accounts to disable and roles/access profiles to remove for a leaver
+async function buildOffboardingPlan(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  identityId: string,
+  excludeSources: string[]
+): Promise<{
+  identity: Record<string, unknown>;
+  steps: OffboardingStep[];
+  skipped: Array<OffboardingStep & { reason: string }>;
+}> {
+  const [identityResponse, accounts] = await Promise.all([
+    api.post(
+      apiPath("/v3/search"),
+      { indices: ["identities"], query: { query: `id:"${identityId}"` } },
+      { params: { limit: 1 }, retrySafe: true }
+    ),
+    fetchList(
+      api,
+      apiPath("/v3/accounts"),
+      { filters: `identityId eq "${identityId}"` },
+      { fetchAll: true, maxItems: MAX_IDENTITY_ACCOUNTS }
+    ) as Promise<{ items: Array<Record<string, unknown>>; truncated: boolean }>,
+  ]);
+
+  const identityDoc = identityResponse.data?.[0] as Record<string, unknown> | undefined;
+  if (!identityDoc) {
+    throw new Error(`Identity not found: ${identityId}`);
+  }
+  if (accounts.truncated) {
+    throw new Error(
+      `Identity ${identityId} has more than ${MAX_IDENTITY_ACCOUNTS} accounts, so a complete offboarding plan cannot be built. Disable its accounts per source instead.`
+    );
+  }
+
+  // Sources may be excluded by ID or by name
+  const excluded = new Set(excludeSources.map((s) => s.toLowerCase()));
+  const isExcluded = (...keys: unknown[]) =>
+    keys.some((key) => typeof key === "string" && excluded.has(key.toLowerCase()));
+
+  const steps: OffboardingStep[] = [];
+  const skipped: Array<OffboardingStep & { reason: string }> = [];
+
+  for (const account of accounts.items) {
+    const sourceName =
+      (account.sourceName as string) ||
+      ((account.source as Record<string, unknown> | undefined)?.name as string) ||
+      undefined;
+    const step: OffboardingStep = {
+      action: "DISABLE_ACCOUNT",
+      type: "ACCOUNT",
+      id: account.id as string,
+      name: account.name as string,
+      source: sourceName || (account.sourceId as string),
+    };
+    if (isExcluded(account.sourceId, sourceName)) {
+      skipped.push({ ...step, reason: "Source excluded" });
+    } else if (account.authoritative) {
+      // Authoritative accounts feed the identity itself and are left to the HR source
+      skipped.push({ ...step, reason: "Authoritative account" });
+    } else if (account.disabled) {
+      skipped.push({ ...step, reason: "Already disabled" });
+    } else {
+      steps.push(step);
+    }
+  }
 
-  if (!SAILPOINT_BASE_URL) {
-    missingVars.push("SAILPOINT_BASE_URL");
+  const access = (identityDoc.access ?? []) as Array<Record<string, unknown>>;
+  for (const item of access) {
+    if (item.type !== "ROLE" && item.type !== "ACCESS_PROFILE") continue;
+    const source = item.source as Record<string, unknown> | undefined;
+    const step: OffboardingStep = {
+      action: "REMOVE_ACCESS",
+      type: item.type,
+      id: item.id as string,
+      name: (item.displayName as string) || (item.name as string),
+      source: source?.name as string | undefined,
+    };
+    if (item.type === "ACCESS_PROFILE" && isExcluded(source?.id, source?.name)) {
+      skipped.push({ ...step, reason: "Source excluded" });
+    } else {
+      steps.push(step);
+    }
   }
-  if (!SAILPOINT_CLIENT_ID) {
-    missingVars.push("SAILPOINT_CLIENT_ID");
+
+  const identity = { ...identityDoc };
+  delete identity.access;
+  delete identity.accounts;
+  return { identity, steps, skipped };
+}
+
+// Steps added to and removed from an offboarding plan since it was confirmed
+function diffOffboardingSteps(
+  confirmed: OffboardingStep[],
+  current: OffboardingStep[]
+): { added: OffboardingStep[]; removed: OffboardingStep[] } {
+  const key = (step: OffboardingStep) => `${step.action}|${step.type}|${step.id}`;
+  const confirmedKeys = new Set(confirmed.map(key));
+  const currentKeys = new Set(current.map(key));
+  return {
+    added: current.filter((step) => !confirmedKeys.has(key(step))),
+    removed: confirmed.filter((step) => !currentKeys.has(key(step))),
+  };
+}
+
+// Execute an offboarding plan one step at a time, recording each outcome
+async function executeOffboardingPlan(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  identityId: string,
+  steps: OffboardingStep[],
+  comment: string | undefined
+): Promise<Array<OffboardingStep & { status: "success" | "failed"; result?: unknown; error?: ToolError }>> {
+  const results = [];
+  for (const step of steps) {
+    try {
+      const response =
+        step.action === "DISABLE_ACCOUNT"
+          ? await api.post(apiPath(encodePath`/v3/accounts/${step.id}/disable`))
+          : // Access is removed with a revoke request (the API's name for a removal)
+            await api.post(apiPath("/v3/access-requests"), {
+              requestedFor: [identityId],
+              requestType: "REVOKE_ACCESS",
+              requestedItems: [
+                { type: step.type, id: step.id, ...(comment ? { comment } : {}) },
+              ],
+            });
+      results.push({ ...step, status: "success" as const, result: response.data });
+    } catch (error) {
+      results.push({ ...step, status: "failed" as const, error: formatError(error) });
+    }
   }
-  if (!SAILPOINT_CLIENT_SECRET) {
-    missingVars.push("SAILPOINT_CLIENT_SECRET");
+  return results;
+}
+
+// An item in requestedItems of an access request
+interface RequestedItem {
+  type: "ACCESS_PROFILE" | "ROLE" | "ENTITLEMENT";
+  id: string;
+  comment?: string;
+}
+
+// Entitlement IDs granted by requested items; SOD prediction only accepts entitlements
+async function expandToEntitlements(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  items: RequestedItem[]
+): Promise<string[]> {
+  const ids = new Set<string>();
+  const entitlementIdsOf = (object: Record<string, unknown>) =>
+    ((object.entitlements ?? []) as Array<{ id: string }>).map((e) => e.id);
+
+  const expand = async (item: { type: string; id: string }): Promise<void> => {
+    if (item.type === "ENTITLEMENT") {
+      ids.add(item.id);
+    } else if (item.type === "ACCESS_PROFILE") {
+      const response = await api.get(apiPath(encodePath`/v3/access-profiles/${item.id}`));
+      entitlementIdsOf(response.data).forEach((id) => ids.add(id));
+    } else if (item.type === "ROLE") {
+      const response = await api.get(apiPath(encodePath`/v3/roles/${item.id}`));
+      entitlementIdsOf(response.data).forEach((id) => ids.add(id));
+      const accessProfiles = (response.data.accessProfiles ?? []) as Array<{ id: string }>;
+      await Promise.all(
+        accessProfiles.map((ap) => expand({ type: "ACCESS_PROFILE", id: ap.id }))
+      );
+    }
+  };
+
+  await Promise.all(items.map(expand));
+  return [...ids];
+}
+
+// An SOD policy an identity would violate, with the two sides of the conflict
+interface PredictedSodViolation {
+  policy: unknown;
+  leftCriteria: unknown[];
+  rightCriteria: unknown[];
+}
+
+// Predict the SOD violations an identity would have holding these entitlements
+// in addition to its current access
+async function predictSodViolations(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  identityId: string,
+  entitlementIds: string[]
+): Promise<PredictedSodViolation[]> {
+  if (entitlementIds.length === 0) return [];
+  // Prediction is a read despite being a POST
+  const response = await api.post(
+    apiPath("/v3/sod-violations/predict"),
+    {
+      identityId,
+      accessRefs: entitlementIds.map((id) => ({ type: "ENTITLEMENT", id })),
+    },
+    { retrySafe: true }
+  );
+  const contexts = (response.data?.violationContexts ?? []) as Array<Record<string, unknown>>;
+  return contexts.map((context) => {
+    const criteria = context.conflictingAccessCriteria as
+      | Record<string, { criteriaList?: unknown[] }>
+      | undefined;
+    return {
+      policy: context.policy,
+      leftCriteria: criteria?.leftCriteria?.criteriaList ?? [],
+      rightCriteria: criteria?.rightCriteria?.criteriaList ?? [],
+    };
+  });
+}
+
+// Predict the SOD violations each identity would have if the request were granted
+async function checkSodForRequest(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  requestedFor: string[],
+  requestedItems: RequestedItem[]
+): Promise<Record<string, unknown>> {
+  const entitlementIds = await expandToEntitlements(api, apiPath, requestedItems);
+
+  const identities = await Promise.all(
+    requestedFor.map(async (identityId) => ({
+      identityId,
+      violations: await predictSodViolations(api, apiPath, identityId, entitlementIds),
+    }))
+  );
+
+  return {
+    hasViolations: identities.some((identity) => identity.violations.length > 0),
+    entitlementsChecked: entitlementIds.length,
+    identities,
+  };
+}
+
+// Identity search fields tried, in order, for each built-in peer dimension
+const PEER_DIMENSION_FIELDS: Record<string, string[]> = {
+  manager: ["manager.id"],
+  department: ["attributes.department", "department"],
+  jobTitle: ["attributes.jobTitle", "attributes.title", "jobTitle", "title"],
+};
+
+// Access item type for each search document _type
+const SEARCH_DOCUMENT_ACCESS_TYPES: Record<string, string> = {
+  entitlement: "ENTITLEMENT",
+  accessprofile: "ACCESS_PROFILE",
+  role: "ROLE",
+};
+
+// Most IDs in one name-lookup search query
+const NAME_LOOKUP_BATCH_SIZE = 100;
+
+// An access item with how many peers hold it
+interface PeerAccessFrequency {
+  id: string;
+  type?: string;
+  name?: string;
+  peersWithAccess: number;
+  peerPercent: number;
+}
+
+// Compare an identity's access with that of peers sharing an attribute value
+async function compareToPeers(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  identityId: string,
+  peerAttribute: string,
+  rareThreshold: number,
+  commonThreshold: number
+): Promise<Record<string, unknown>> {
+  const identityResponse = await api.post(
+    apiPath("/v3/search"),
+    { indices: ["identities"], query: { query: `id:"${identityId}"` } },
+    { params: { limit: 1 }, retrySafe: true }
+  );
+  const identity = identityResponse.data?.[0] as Record<string, unknown> | undefined;
+  if (!identity) {
+    throw new Error(`Identity not found: ${identityId}`);
   }
 
-  if (missingVars.length > 0) {
+  // Built-in dimensions try several fields; anything else is an identity attribute
+  const candidates = PEER_DIMENSION_FIELDS[peerAttribute] ?? [
+    peerAttribute.includes(".") ? peerAttribute : `attributes.${peerAttribute}`,
+  ];
+  const peerField = candidates.find((field) => {
+    const value = getFieldValue(identity, field);
+    return value !== undefined && value !== null && value !== "";
+  });
+  if (!peerField) {
     throw new Error(
-      `Missing required environment variables: ${missingVars.join(", ")}. ` +
-      `Please set SAILPOINT_BASE_URL to your tenant API URL (e.g., https://acme.api.identitynow.com), ` +
-      `and SAILPOINT_CLIENT_ID and SAILPOINT_CLIENT_SECRET from your SailPoint tenant Personal Access Token.`
+      `Identity ${identityId} has no value for ${peerAttribute} (checked ${candidates.join(", ")})`
+    );
+  }
+  const peerValue = String(getFieldValue(identity, peerField));
+  const peerQuery = `${peerField}:"${peerValue.replace(/"/g, '\\"')}" AND NOT id:"${identityId}"`;
+
+  // Peer count and per-item holder counts come from one search and one aggregation
+  const [countResponse, aggregateResponse] = await Promise.all([
+    api.post(
+      apiPath("/v3/search"),
+      { indices: ["identities"], query: { query: peerQuery } },
+      { params: { limit: 1, count: true }, retrySafe: true }
+    ),
+    api.post(
+      apiPath("/v3/search/aggregate"),
+      {
+        indices: ["identities"],
+        aggregationType: "SAILPOINT",
+        query: { query: peerQuery },
+        aggregations: {
+          nested: { name: "access", type: "access" },
+          bucket: { name: "access_ids", type: "TERMS", field: "access.id", size: 10000 },
+        },
+      },
+      { retrySafe: true }
+    ),
+  ]);
+  const peerCount = Number(countResponse.headers["x-total-count"] ?? 0);
+  const buckets = (aggregateResponse.data?.aggregations?.access?.access_ids?.buckets ?? []) as Array<{
+    key: string;
+    doc_count: number;
+  }>;
+  const holders = new Map(buckets.map((bucket) => [bucket.key, bucket.doc_count]));
+  const summary = {
+    identity: { id: identity.id, name: identity.name, displayName: identity.displayName },
+    peerAttribute,
+    peerField,
+    peerValue,
+    peerCount,
+    rareThreshold,
+    commonThreshold,
+  };
+
+  // Without peers every item would look rare, so say so rather than flag them all
+  if (peerCount === 0) {
+    return {
+      ...summary,
+      noPeersFound: true,
+      rareAccess: [],
+      missingCommonAccess: [],
+      message: `No other identity has ${peerField} "${peerValue}", so there is nothing to compare with. Try a broader peerAttribute.`,
+    };
+  }
+
+  const percentOf = (count: number) => Math.round((count / peerCount) * 1000) / 10;
+  const ownAccess = ((identity.access ?? []) as Array<Record<string, unknown>>).filter(
+    (item) => item.id
+  );
+  const ownIds = new Set(ownAccess.map((item) => item.id as string));
+
+  const rareAccess: PeerAccessFrequency[] = ownAccess
+    .map((item) => {
+      const count = holders.get(item.id as string) ?? 0;
+      return {
+        id: item.id as string,
+        type: item.type as string,
+        name: (item.displayName as string) || (item.name as string),
+        peersWithAccess: count,
+        peerPercent: percentOf(count),
+      };
+    })
+    .filter((item) => item.peerPercent < rareThreshold)
+    .sort((a, b) => a.peerPercent - b.peerPercent);
+
+  const missingCommonAccess: PeerAccessFrequency[] = buckets
+    .filter((bucket) => !ownIds.has(bucket.key) && percentOf(bucket.doc_count) >= commonThreshold)
+    .map((bucket) => ({
+      id: bucket.key,
+      peersWithAccess: bucket.doc_count,
+      peerPercent: percentOf(bucket.doc_count),
+    }))
+    .sort((a, b) => b.peerPercent - a.peerPercent);
+
+  // Aggregation buckets carry only IDs, so look up names for the missing items,
+  // a batch at a time to keep each query short
+  for (let start = 0; start < missingCommonAccess.length; start += NAME_LOOKUP_BATCH_SIZE) {
+    const batch = missingCommonAccess.slice(start, start + NAME_LOOKUP_BATCH_SIZE);
+    const ids = batch.map((item) => `"${item.id}"`).join(" OR ");
+    const namesResponse = await api.post(
+      apiPath("/v3/search"),
+      { indices: ["entitlements", "accessprofiles", "roles"], query: { query: `id:(${ids})` } },
+      { params: { limit: batch.length }, retrySafe: true }
     );
+    const found = new Map(
+      ((namesResponse.data ?? []) as Array<Record<string, unknown>>).map((doc) => [doc.id, doc])
+    );
+    for (const item of batch) {
+      const doc = found.get(item.id);
+      if (!doc) continue;
+      item.name = (doc.displayName as string) || (doc.name as string);
+      item.type = SEARCH_DOCUMENT_ACCESS_TYPES[doc._type as string];
+    }
   }
+
+  return {
+    ...summary,
+    rareAccess,
+    missingCommonAccess,
+  };
+}
+
+// Aggregation task polling. The default wait stays under the 60 second request
+// timeout MCP clients use by default; longer waits need a client configured for them.
+const TASK_POLL_INTERVAL_MS = 5000;
+const DEFAULT_TASK_WAIT_SECONDS = 45;
+const MAX_TASK_WAIT_SECONDS = 600;
+
+// Task result attributes holding aggregation counts, by the names account and
+// entitlement aggregations use
+const AGGREGATION_COUNT_ATTRIBUTES: Record<string, string[]> = {
+  total: ["total", "totalAccounts", "groupsTotal"],
+  added: ["created", "accountsCreated", "groupsCreated"],
+  changed: ["updated", "accountsUpdated", "groupsUpdated"],
+  removed: ["deleted", "accountsDeleted", "groupsDeleted"],
+  unchanged: ["optimized", "unchanged"],
+};
+
+// Reduce a task status to its outcome, counts, and messages
+function summarizeTask(task: Record<string, unknown>): Record<string, unknown> {
+  const attributes = (task.attributes ?? {}) as Record<string, unknown>;
+  const counts: Record<string, number> = {};
+  for (const [count, keys] of Object.entries(AGGREGATION_COUNT_ATTRIBUTES)) {
+    const key = keys.find((k) => attributes[k] !== undefined && attributes[k] !== null);
+    if (key) counts[count] = Number(attributes[key]);
+  }
+  const messages = (task.messages ?? []) as Array<Record<string, unknown>>;
+  return {
+    taskId: task.id,
+    name: task.uniqueName ?? task.name,
+    target: task.target,
+    launched: task.launched,
+    completed: task.completed ?? null,
+    completionStatus: task.completionStatus ?? null,
+    percentComplete: task.percentComplete,
+    counts,
+    errors: messages.filter((m) => m.type === "ERROR" || m.type === "WARN"),
+  };
+}
+
+// Poll a task until it completes or the wait runs out
+async function waitForTask(
+  api: AxiosInstance,
+  apiPath: (path: string) => string,
+  taskId: string,
+  waitSeconds: number
+): Promise<Record<string, unknown>> {
+  const deadline = Date.now() + Math.min(waitSeconds, MAX_TASK_WAIT_SECONDS) * 1000;
+  for (;;) {
+    const response = await api.get(apiPath(encodePath`/v3/task-status/${taskId}`));
+    const task = response.data as Record<string, unknown>;
+    if (task.completed || task.completionStatus) {
+      return { ...summarizeTask(task), timedOut: false };
+    }
+    if (Date.now() + TASK_POLL_INTERVAL_MS > deadline) {
+      return {
+        ...summarizeTask(task),
+        timedOut: true,
+        message: `The task is still running. Call get_task_status with id "${taskId}" to follow it.`,
+      };
+    }
+    await new Promise((resolve) => setTimeout(resolve, TASK_POLL_INTERVAL_MS));
+  }
+}
+
+// Evaluate a transform against sample data, reporting the output
+function previewTransform(transform: TransformDefinition, sample: unknown): Record<string, unknown> {
+  if (!transform.type) {
+    throw new Error("transform must have a 'type'");
+  }
+  return {
+    name: transform.name,
+    type: transform.type,
+    output: evaluateTransform(transform, (sample ?? {}) as TransformSample),
+  };
+}
+
+// Map SOD policy tool arguments to API fields; criteria sides are returned separately
+function sodPolicyFields(args: Record<string, unknown>): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  if (args.name) fields.name = args.name;
+  if (args.description !== undefined) fields.description = args.description;
+  if (args.ownerId) fields.ownerRef = { type: "IDENTITY", id: args.ownerId };
+  if (args.state) fields.state = args.state;
+  if (args.policyQuery) fields.policyQuery = args.policyQuery;
+  if (args.correctionAdvice !== undefined) fields.correctionAdvice = args.correctionAdvice;
+  if (args.compensatingControls !== undefined) fields.compensatingControls = args.compensatingControls;
+
+  const criteria = (name: unknown, ids: unknown) => ({
+    ...(name ? { name } : {}),
+    criteriaList: (ids as string[]).map((id) => ({ type: "ENTITLEMENT", id })),
+  });
+  if (args.leftEntitlementIds) fields.left = criteria(args.leftCriteriaName, args.leftEntitlementIds);
+  if (args.rightEntitlementIds) fields.right = criteria(args.rightCriteriaName, args.rightEntitlementIds);
+  return fields;
 }
 
+// Shared schema properties for tools that support auto-pagination and export
+const fetchAllProperties = {
+  fetchAll: {
+    type: "boolean",
+    description:
+      "Follow pagination and return every matching result (up to maxItems) together with truncation metadata",
+  },
+  maxItems: {
+    type: "number",
+    minimum: 1,
+    description: `Upper bound on results returned when fetchAll is set (default ${DEFAULT_MAX_ITEMS}, or ${DEFAULT_MAX_EXPORT_ITEMS} when exporting)`,
+  },
+  export: {
+    type: "object",
+    description:
+      "Stream every matching result (up to maxItems) to a local file instead of returning it. Returns the file path, row count, and a preview of the first rows.",
+    properties: {
+      format: {
+        type: "string",
+        enum: ["csv", "jsonl"],
+        description: "File format (default csv)",
+      },
+      fileName: {
+        type: "string",
+        description: "File name within the server's export directory (default: endpoint name and timestamp)",
+      },
+      columns: {
+        type: "array",
+        items: { type: "string" },
+        description:
+          "Dot paths to include as columns, e.g. ['name', 'source.name', 'manager.name']. CSV defaults to the top-level fields of the first result; JSONL defaults to whole results",
+      },
+      headers: {
+        type: "array",
+        items: { type: "string" },
+        description: "Column headers, one per column (default: the column paths)",
+      },
+    },
+  },
+};
+
+// Shared schema properties for shaping the results of read tools
+const outputProperties = {
+  fields: {
+    type: "array",
+    items: { type: "string" },
+    description: "Dot paths to keep in each returned object, e.g. ['id', 'name', 'source.name']",
+  },
+  format: {
+    type: "string",
+    enum: ["full", "compact", "table"],
+    description:
+      "full (default) returns objects as-is; compact keeps a few key fields per object type; table renders a markdown table",
+  },
+  noCache: {
+    type: "boolean",
+    description: "Skip the response cache (when SAILPOINT_CACHE=true) and read fresh data from the tenant",
+  },
+};
+
+// Shared schema properties for tools that take a proposed access request
+const accessRequestProperties = {
+  requestedFor: {
+    type: "array",
+    items: { type: "string", pattern: ID_PATTERN },
+    description: "Array of identity IDs to request access for",
+  },
+  requestedItems: {
+    type: "array",
+    items: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["ACCESS_PROFILE", "ROLE", "ENTITLEMENT"],
+        },
+        id: { type: "string" },
+        comment: { type: "string" },
+      },
+      required: ["type", "id"],
+    },
+    description: "Items to request (access profiles, roles, or entitlements)",
+  },
+};
+
+// Shared schema properties for creating and updating SOD policies
+const sodPolicyProperties = {
+  name: {
+    type: "string",
+    description: "Name of the policy",
+  },
+  description: {
+    type: "string",
+    description: "Description of the policy",
+  },
+  ownerId: {
+    type: "string",
+    description: "Identity ID of the policy owner",
+  },
+  state: {
+    type: "string",
+    enum: ["ENFORCED", "NOT_ENFORCED"],
+    description: "Whether the policy is enforced. New policies default to NOT_ENFORCED so drafts can be tested first",
+  },
+  policyQuery: {
+    type: "string",
+    description: "Search query selecting violating identities (GENERAL policies)",
+  },
+  leftCriteriaName: {
+    type: "string",
+    description: "Label for the left side of a conflicting-access policy",
+  },
+  leftEntitlementIds: {
+    type: "array",
+    items: { type: "string" },
+    description: "Entitlement IDs on the left side (CONFLICTING_ACCESS_BASED policies)",
+  },
+  rightCriteriaName: {
+    type: "string",
+    description: "Label for the right side of a conflicting-access policy",
+  },
+  rightEntitlementIds: {
+    type: "array",
+    items: { type: "string" },
+    description: "Entitlement IDs on the right side (CONFLICTING_ACCESS_BASED policies)",
+  },
+  correctionAdvice: {
+    type: "string",
+    description: "Advice shown to reviewers on how to resolve a violation",
+  },
+  compensatingControls: {
+    type: "string",
+    description: "Controls that mitigate the risk when a violation is allowed",
+  },
+};
+
+// Shared schema for the structured search condition of search and search_aggregate
+const searchWhereProperty = {
+  type: "object",
+  description:
+    "Structured alternative to query, compiled by the server into valid query text (or a DSL body when queryType is DSL) and returned as compiledQuery. A condition is one of: a clause {field, op, value} (op 'in' takes values; 'between' takes from and/or to, as dates or date math like 'now-30d'; 'exists'/'missing' take no value); a group {and: [conditions]} or {or: [conditions]}; {not: condition}; or {nested: 'access' | 'accounts' | 'apps', where: condition}, which one nested item must match as a whole. " +
+    'Example: {"and": [{"field": "attributes.department", "op": "eq", "value": "Engineering"}, {"nested": "access", "where": {"and": [{"field": "type", "op": "eq", "value": "ENTITLEMENT"}, {"field": "source.name", "op": "eq", "value": "Active Directory"}]}}]}',
+  properties: {
+    field: { type: "string", description: "Field name, e.g. 'name', 'attributes.department', 'created'" },
+    op: { type: "string", enum: CONDITION_OPERATORS },
+    value: { description: "Value to compare with (string, number, or boolean)" },
+    values: { type: "array", description: "Values for op 'in'" },
+    from: { description: "Lower bound (inclusive) for op 'between'" },
+    to: { description: "Upper bound (inclusive) for op 'between'" },
+    and: { type: "array", items: { type: "object" }, description: "Conditions that must all match" },
+    or: { type: "array", items: { type: "object" }, description: "Conditions of which at least one must match" },
+    not: { type: "object", description: "Condition that must not match" },
+    nested: { type: "string", enum: NESTED_PATHS, description: "Nested item type that 'where' applies to" },
+    where: { type: "object", description: "Condition one nested item must match" },
+  },
+};
+
 // Define tools
 const tools: Tool[] = [
   // Identities
@@ -146,20 +1092,24 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description:
-            "Filter expression (e.g., 'name co \"John\"' or 'lifecycleState eq \"active\"')",
+            "Filter expression (e.g., 'alias sw \"john\"' or 'email eq \"jane.doe@example.com\"')",
         },
         sorters: {
           type: "string",
-          description: "Sort fields (e.g., 'name' or '-created')",
+          description: "Sort fields (e.g., 'name' or '-name')",
         },
       },
     },
@@ -179,6 +1129,57 @@ const tools: Tool[] = [
       required: ["id"],
     },
   },
+  {
+    name: "get_identity_access_summary",
+    description:
+      "Answer \"what can this identity access?\" in one call: accounts grouped by source with their entitlements, roles and access profiles (with how each was granted where known), pending access requests, and the SOD policies its current entitlements violate. Sub-lookups run concurrently and any that fail are listed in 'errors'.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The identity ID",
+        },
+        includeEntitlements: {
+          type: "boolean",
+          description: "Fetch entitlements for every account (default true)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "compare_to_peers",
+    description:
+      "Compare an identity's access with its peers for least-privilege reviews. Peers share the identity's manager, department, job title, or any other identity attribute. Returns access this identity holds that fewer than rareThreshold% of peers hold, and access at least commonThreshold% of peers hold that this identity lacks. If no peers share the value, noPeersFound is set and nothing is flagged.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The identity ID",
+        },
+        peerAttribute: {
+          type: "string",
+          description:
+            "Peer dimension: 'manager', 'department', 'jobTitle', or the name of any identity attribute (e.g. 'location', or a search field such as 'identityProfile.name')",
+        },
+        rareThreshold: {
+          type: "number",
+          minimum: 0,
+          maximum: 100,
+          description: "Report held access that fewer than this percentage of peers hold (default 10)",
+        },
+        commonThreshold: {
+          type: "number",
+          minimum: 0,
+          maximum: 100,
+          description: "Report missing access that at least this percentage of peers hold (default 50)",
+        },
+      },
+      required: ["id", "peerAttribute"],
+    },
+  },
   // Accounts
   {
     name: "list_accounts",
@@ -189,16 +1190,20 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description:
-            "Filter expression (e.g., 'sourceId eq \"abc123\"' or 'disabled eq true')",
+            "Filter expression (e.g., 'sourceId eq \"abc123\"' or 'uncorrelated eq true')",
         },
         sorters: {
           type: "string",
@@ -234,12 +1239,16 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
       },
       required: ["accountId"],
     },
@@ -286,6 +1295,34 @@ const tools: Tool[] = [
       required: ["id"],
     },
   },
+  {
+    name: "offboard_identity",
+    description:
+      "Offboard a leaver in two steps. Called without confirmationToken, it returns the plan: every account to disable and every role or access profile to remove with a revoke access request, plus the items skipped and why. Nothing is changed. Called again with the same arguments and the returned confirmationToken, it rebuilds the plan, executes each step, and reports per-item success or failure.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        identityId: {
+          type: "string",
+          description: "The identity ID of the leaver",
+        },
+        excludeSources: {
+          type: "array",
+          items: { type: "string" },
+          description: "Source IDs or names whose accounts and access profiles are left untouched",
+        },
+        comment: {
+          type: "string",
+          description: "Comment attached to each access removal request",
+        },
+        confirmationToken: {
+          type: "string",
+          description: "Token from the plan returned by a previous call with the same arguments; executes the plan",
+        },
+      },
+      required: ["identityId"],
+    },
+  },
   // Access Profiles
   {
     name: "list_access_profiles",
@@ -296,15 +1333,19 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
-          description: "Filter expression (e.g., 'name co \"Admin\"')",
+          description: "Filter expression (e.g., 'name sw \"Admin\"')",
         },
         sorters: {
           type: "string",
@@ -377,15 +1418,19 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
-          description: "Filter expression (e.g., 'name co \"Engineer\"')",
+          description: "Filter expression (e.g., 'name sw \"Engineer\"')",
         },
         sorters: {
           type: "string",
@@ -425,12 +1470,16 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
       },
       required: ["roleId"],
     },
@@ -476,12 +1525,16 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description: "Filter expression",
@@ -505,29 +1558,230 @@ const tools: Tool[] = [
     },
   },
   {
-    name: "list_certification_campaigns",
-    description: "List certification campaigns with status and progress.",
+    name: "list_certification_review_items",
+    description:
+      "List the access review items in a certification (roles, access profiles, and entitlements to approve or revoke).",
     inputSchema: {
       type: "object" as const,
       properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
         limit: {
           type: "number",
-          description: "Maximum number of results",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description:
-            "Filter expression (e.g., 'status eq \"ACTIVE\"')",
+            "Filter expression (e.g., 'type eq \"ENTITLEMENT\"' or 'completed eq false')",
         },
         sorters: {
           type: "string",
-          description: "Sort fields",
+          description: "Sort fields (e.g., 'identitySummary.name')",
         },
-      },
+        entitlements: {
+          type: "string",
+          description: "Comma-separated entitlement IDs to restrict the items to",
+        },
+        accessProfiles: {
+          type: "string",
+          description: "Comma-separated access profile IDs to restrict the items to",
+        },
+        roles: {
+          type: "string",
+          description: "Comma-separated role IDs to restrict the items to",
+        },
+      },
+      required: ["certificationId"],
+    },
+  },
+  {
+    name: "list_certification_identity_summaries",
+    description:
+      "List the identity summaries of a certification, with per-identity decision progress.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results (default 50, max 250)",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+        filters: {
+          type: "string",
+          description: "Filter expression (e.g., 'completed eq false')",
+        },
+        sorters: {
+          type: "string",
+          description: "Sort fields (e.g., 'name')",
+        },
+      },
+      required: ["certificationId"],
+    },
+  },
+  {
+    name: "list_certification_reviewers",
+    description: "List the reviewers assigned to a certification.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+      },
+      required: ["certificationId"],
+    },
+  },
+  {
+    name: "decide_certification_items",
+    description:
+      "Record approve or revoke decisions on certification review items. Reports which decisions were accepted and which were rejected.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
+        decisions: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string", description: "The review item ID" },
+              decision: {
+                type: "string",
+                enum: ["APPROVE", "REVOKE"],
+              },
+              comments: { type: "string" },
+            },
+            required: ["id", "decision"],
+          },
+          description: "Decisions to record, one per review item",
+        },
+        comments: {
+          type: "string",
+          description: "Default comment for decisions that do not carry their own",
+        },
+      },
+      required: ["certificationId", "decisions"],
+    },
+  },
+  {
+    name: "reassign_certification_items",
+    description:
+      "Reassign certification review items or identity summaries to another reviewer.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              id: { type: "string" },
+              type: {
+                type: "string",
+                enum: ["ITEM", "IDENTITY_SUMMARY", "TARGET_SUMMARY"],
+              },
+            },
+            required: ["id", "type"],
+          },
+          description: "Items to reassign (max 50)",
+        },
+        reassignTo: {
+          type: "string",
+          description: "Identity ID of the new reviewer",
+        },
+        reason: {
+          type: "string",
+          description: "Reason for the reassignment",
+        },
+      },
+      required: ["certificationId", "items", "reassignTo", "reason"],
+    },
+  },
+  {
+    name: "sign_off_certification",
+    description:
+      "Sign off a certification once every review item has a decision.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        certificationId: {
+          type: "string",
+          description: "The certification ID",
+        },
+      },
+      required: ["certificationId"],
+    },
+  },
+  {
+    name: "list_certification_campaigns",
+    description: "List certification campaigns with status and progress.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+        filters: {
+          type: "string",
+          description:
+            "Filter expression (e.g., 'status eq \"ACTIVE\"')",
+        },
+        sorters: {
+          type: "string",
+          description: "Sort fields",
+        },
+      },
     },
   },
   {
@@ -554,12 +1808,16 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
       },
     },
   },
@@ -590,12 +1848,16 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
       },
       required: ["workflowId"],
     },
@@ -628,12 +1890,16 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description:
@@ -661,6 +1927,101 @@ const tools: Tool[] = [
       required: ["id"],
     },
   },
+  {
+    name: "aggregate_source_accounts",
+    description:
+      "Start an account aggregation on a source and, by default, poll its task until it completes. Returns the task ID, completion status, counts of added, changed, removed and unchanged accounts, and any errors.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The source ID",
+        },
+        disableOptimization: {
+          type: "boolean",
+          description: "Process every account instead of only those changed since the last aggregation",
+        },
+        wait: {
+          type: "boolean",
+          description: "Poll the task until it completes (default true); false returns the task ID immediately",
+        },
+        waitSeconds: {
+          type: "number",
+          minimum: 0,
+          maximum: MAX_TASK_WAIT_SECONDS,
+          description: `How long to poll before returning with timedOut and the taskId for get_task_status (default ${DEFAULT_TASK_WAIT_SECONDS}, max ${MAX_TASK_WAIT_SECONDS}). Waits over 60 seconds exceed most MCP clients' default request timeout.`,
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "aggregate_source_entitlements",
+    description:
+      "Start an entitlement aggregation on a source and, by default, poll its task until it completes. Returns the task ID, completion status, counts of added, changed and removed entitlements, and any errors.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The source ID",
+        },
+        wait: {
+          type: "boolean",
+          description: "Poll the task until it completes (default true); false returns the task ID immediately",
+        },
+        waitSeconds: {
+          type: "number",
+          minimum: 0,
+          maximum: MAX_TASK_WAIT_SECONDS,
+          description: `How long to poll before returning with timedOut and the taskId for get_task_status (default ${DEFAULT_TASK_WAIT_SECONDS}, max ${MAX_TASK_WAIT_SECONDS}). Waits over 60 seconds exceed most MCP clients' default request timeout.`,
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_task_status",
+    description:
+      "Get the status of a task, such as an aggregation, with its completion status, counts, and errors.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The task ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "list_source_aggregations",
+    description:
+      "List recent aggregation tasks for a source, newest first, with completion status, counts, and errors.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The source ID",
+        },
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of tasks (default 10)",
+        },
+        completionStatus: {
+          type: "string",
+          enum: ["SUCCESS", "WARNING", "ERROR", "TERMINATED", "TEMP_ERROR"],
+          description: "Only tasks that finished with this status",
+        },
+      },
+      required: ["id"],
+    },
+  },
   // Search
   {
     name: "search",
@@ -687,12 +2048,13 @@ const tools: Tool[] = [
         query: {
           type: "string",
           description:
-            "Search query string (e.g., 'name:John AND department:Engineering')",
+            "Search query string (e.g., 'name:John AND department:Engineering'). Required unless where is given",
         },
+        where: searchWhereProperty,
         queryType: {
           type: "string",
           enum: ["DSL", "SAILPOINT", "TEXT", "TYPEAHEAD"],
-          description: "Query type (default: SAILPOINT)",
+          description: "Query type (default: SAILPOINT). With where, DSL compiles the condition to a DSL body",
         },
         sort: {
           type: "array",
@@ -706,10 +2068,13 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 10000,
           description: "Maximum number of results (default 100, max 10000)",
         },
+        ...fetchAllProperties,
       },
-      required: ["indices", "query"],
+      required: ["indices"],
     },
   },
   {
@@ -738,6 +2103,12 @@ const tools: Tool[] = [
           type: "string",
           description: "Search query to filter documents",
         },
+        where: searchWhereProperty,
+        queryType: {
+          type: "string",
+          enum: ["DSL", "SAILPOINT"],
+          description: "Query type: how where is compiled (SAILPOINT query text by default, or a DSL body), or the type of a raw query",
+        },
         aggregationType: {
           type: "string",
           enum: [
@@ -756,6 +2127,7 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
           description: "Maximum buckets for terms aggregation",
         },
       },
@@ -772,12 +2144,16 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
           description:
@@ -826,12 +2202,16 @@ const tools: Tool[] = [
         },
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
       },
     },
   },
@@ -842,97 +2222,383 @@ const tools: Tool[] = [
     inputSchema: {
       type: "object" as const,
       properties: {
-        requestedFor: {
-          type: "array",
-          items: { type: "string" },
-          description: "Array of identity IDs to request access for",
-        },
-        requestedItems: {
-          type: "array",
-          items: {
-            type: "object",
-            properties: {
-              type: {
-                type: "string",
-                enum: ["ACCESS_PROFILE", "ROLE", "ENTITLEMENT"],
-              },
-              id: { type: "string" },
-              comment: { type: "string" },
-            },
-            required: ["type", "id"],
-          },
-          description: "Items to request (access profiles, roles, or entitlements)",
-        },
+        ...accessRequestProperties,
         requestType: {
           type: "string",
           enum: ["GRANT_ACCESS", "REVOKE_ACCESS"],
           description: "Whether to grant or revoke access",
         },
+        failOnSodViolation: {
+          type: "boolean",
+          description:
+            "Run check_sod_for_request first and refuse to submit a grant request that would cause an SOD violation",
+        },
       },
       required: ["requestedFor", "requestedItems"],
     },
   },
-  // Identity Profiles
+  // Access Request Approvals
   {
-    name: "list_identity_profiles",
+    name: "list_pending_approvals",
     description:
-      "List identity profiles (configurations for how identities are created/managed).",
+      "List access request approvals waiting on an approver. Defaults to the identity that owns the API credentials.",
     inputSchema: {
       type: "object" as const,
       properties: {
+        ownerId: {
+          type: "string",
+          description: "Identity ID of the approver (defaults to the current identity)",
+        },
         limit: {
           type: "number",
-          description: "Maximum number of results",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
-          description: "Filter expression",
+          description:
+            "Filter expression (e.g., 'requestedFor.id eq \"2c91808568c529c60168cca6f90c1313\"')",
         },
         sorters: {
           type: "string",
-          description: "Sort fields",
+          description: "Sort fields (e.g., '-created')",
         },
       },
     },
   },
   {
-    name: "get_identity_profile",
+    name: "list_completed_approvals",
     description:
-      "Get detailed information about an identity profile including attribute mappings.",
+      "List access request approvals an approver has already acted on. Defaults to the identity that owns the API credentials.",
     inputSchema: {
       type: "object" as const,
       properties: {
-        id: {
+        ownerId: {
           type: "string",
-          description: "The identity profile ID",
+          description: "Identity ID of the approver (defaults to the current identity)",
         },
-      },
-      required: ["id"],
-    },
-  },
-  // SOD Policies
-  {
-    name: "list_sod_policies",
-    description:
-      "List Separation of Duties (SOD) policies for compliance monitoring.",
-    inputSchema: {
-      type: "object" as const,
-      properties: {
         limit: {
           type: "number",
-          description: "Maximum number of results",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results (default 50, max 250)",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
         filters: {
           type: "string",
-          description: "Filter expression",
+          description: "Filter expression (e.g., 'state eq \"REJECTED\"')",
+        },
+        sorters: {
+          type: "string",
+          description: "Sort fields (e.g., '-modified')",
+        },
+      },
+    },
+  },
+  {
+    name: "get_access_request_approval",
+    description:
+      "Get one access request approval with its request status history (approval steps, comments, and forwarding).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The approval ID",
+        },
+        ownerId: {
+          type: "string",
+          description: "Identity ID of the approver (defaults to the current identity)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "approve_access_request",
+    description: "Approve a pending access request approval.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The approval ID",
+        },
+        comment: {
+          type: "string",
+          description: "Comment recorded with the approval",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "reject_access_request",
+    description: "Reject a pending access request approval.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The approval ID",
+        },
+        comment: {
+          type: "string",
+          description: "Reason for the rejection",
+        },
+      },
+      required: ["id", "comment"],
+    },
+  },
+  {
+    name: "forward_access_request_approval",
+    description: "Forward a pending access request approval to another identity.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The approval ID",
+        },
+        newOwnerId: {
+          type: "string",
+          description: "Identity ID to forward the approval to",
+        },
+        comment: {
+          type: "string",
+          description: "Reason for forwarding",
+        },
+      },
+      required: ["id", "newOwnerId", "comment"],
+    },
+  },
+  {
+    name: "get_approval_summary",
+    description:
+      "Count an approver's access request approvals by status (pending, approved, rejected).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        ownerId: {
+          type: "string",
+          description: "Identity ID of the approver (defaults to the current identity)",
+        },
+        fromDate: {
+          type: "string",
+          description: "Only count approvals created after this ISO-8601 date",
+        },
+      },
+    },
+  },
+  // Identity Profiles
+  {
+    name: "list_identity_profiles",
+    description:
+      "List identity profiles (configurations for how identities are created/managed).",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+        filters: {
+          type: "string",
+          description: "Filter expression",
+        },
+        sorters: {
+          type: "string",
+          description: "Sort fields",
+        },
+      },
+    },
+  },
+  {
+    name: "get_identity_profile",
+    description:
+      "Get detailed information about an identity profile including attribute mappings.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The identity profile ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  // Transforms
+  {
+    name: "list_transforms",
+    description: "List transforms, which compute identity attribute values from source data.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+        name: {
+          type: "string",
+          description: "Only transforms whose name starts with this value",
+        },
+        filters: {
+          type: "string",
+          description: "Filter expression (e.g., 'name sw \"Department\"')",
+        },
+      },
+    },
+  },
+  {
+    name: "get_transform",
+    description: "Get a transform's definition.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The transform ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "create_transform",
+    description:
+      "Create a transform. Use preview_transform first to check its output against sample data.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        name: {
+          type: "string",
+          description: "Name of the transform",
+        },
+        type: {
+          type: "string",
+          description: "Transform type (e.g., 'lookup', 'concat', 'dateFormat')",
+        },
+        attributes: {
+          type: "object",
+          description: "Type-specific attributes; may contain nested transforms",
+        },
+      },
+      required: ["name", "type", "attributes"],
+    },
+  },
+  {
+    name: "update_transform",
+    description:
+      "Replace a transform's attributes. The name and type of a transform cannot be changed.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The transform ID",
+        },
+        attributes: {
+          type: "object",
+          description: "The complete new attributes",
+        },
+      },
+      required: ["id", "attributes"],
+    },
+  },
+  {
+    name: "delete_transform",
+    description: "Delete a transform. Fails if an identity profile still uses it.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The transform ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "preview_transform",
+    description:
+      `Evaluate a transform locally against sample data and return its output, without saving anything. Pass a draft as 'transform', or the 'id' of a saved one. Supported types, also when nested: ${PREVIEWABLE_TRANSFORM_TYPES.join(", ")}.`,
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        transform: {
+          type: "object",
+          description: "A transform definition: {type, attributes}",
+        },
+        id: {
+          type: "string",
+          description: "ID of a saved transform to preview instead",
+        },
+        sample: {
+          type: "object",
+          description:
+            "Sample data: 'input' (the implicit input attribute value), 'identityAttributes' ({name: value}), and 'accounts' ({sourceName: {attributeName: value}})",
+          properties: {
+            input: { description: "Implicit input value" },
+            identityAttributes: { type: "object" },
+            accounts: { type: "object" },
+          },
+        },
+      },
+    },
+  },
+  // SOD Policies
+  {
+    name: "list_sod_policies",
+    description:
+      "List Separation of Duties (SOD) policies for compliance monitoring.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        limit: {
+          type: "number",
+          minimum: 1,
+          maximum: 250,
+          description: "Maximum number of results",
+        },
+        offset: {
+          type: "number",
+          minimum: 0,
+          description: "Offset for pagination",
+        },
+        ...fetchAllProperties,
+        filters: {
+          type: "string",
+          description: "Filter expression",
         },
       },
     },
@@ -959,30 +2625,405 @@ const tools: Tool[] = [
       properties: {
         limit: {
           type: "number",
+          minimum: 1,
+          maximum: 250,
           description: "Maximum number of results",
         },
         offset: {
           type: "number",
+          minimum: 0,
           description: "Offset for pagination",
         },
+        ...fetchAllProperties,
+      },
+    },
+  },
+  {
+    name: "create_sod_policy",
+    description:
+      "Create a Separation of Duties policy. GENERAL policies match identities with policyQuery; CONFLICTING_ACCESS_BASED policies flag anyone holding entitlements from both the left and right sides. Created as NOT_ENFORCED unless state is given, so a draft's violation report can be run before enforcing it.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        type: {
+          type: "string",
+          enum: ["GENERAL", "CONFLICTING_ACCESS_BASED"],
+          description: "Policy type (default CONFLICTING_ACCESS_BASED)",
+        },
+        ...sodPolicyProperties,
+      },
+      required: ["name", "ownerId"],
+    },
+  },
+  {
+    name: "update_sod_policy",
+    description:
+      "Update an SOD policy. Only the fields given are changed; giving either entitlement list replaces that whole side.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The SOD policy ID",
+        },
+        ...sodPolicyProperties,
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "delete_sod_policy",
+    description: "Delete an SOD policy.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The SOD policy ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "run_sod_policy_report",
+    description:
+      "Start a violation report for an SOD policy, listing every identity that currently violates it. Poll get_sod_policy_report_status until the status is SUCCESS, then call download_sod_policy_report.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The SOD policy ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "get_sod_policy_report_status",
+    description:
+      "Get the status of an SOD policy's latest violation report (PENDING, SUCCESS, FAILURE, ...) and its report result ID.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        id: {
+          type: "string",
+          description: "The SOD policy ID",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "download_sod_policy_report",
+    description:
+      "Download a completed SOD violation report (a zip of CSV files) to the server's export directory and return the file path and size.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        reportResultId: {
+          type: "string",
+          description: "The report result ID from run_sod_policy_report or get_sod_policy_report_status",
+        },
+        fileName: {
+          type: "string",
+          description: "A single file from the report to download instead of the whole zip",
+        },
+      },
+      required: ["reportResultId"],
+    },
+  },
+  {
+    name: "check_sod_for_request",
+    description:
+      "Check a proposed access request for Separation of Duties conflicts before submitting it. Takes the same requestedFor/requestedItems as create_access_request, expands roles and access profiles to their entitlements, and asks SailPoint to predict violations for each identity. Returns the conflicting policies with their left and right criteria.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        ...accessRequestProperties,
+      },
+      required: ["requestedFor", "requestedItems"],
+    },
+  },
+  // Tenants
+  {
+    name: "list_tenants",
+    description:
+      "List the configured SailPoint tenant profiles (name, base URL, API version, and which one is the default). Pass a profile name as 'tenant' to any other tool.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  {
+    name: "get_auth_status",
+    description:
+      "Show how the server authenticates to a tenant (client credentials, authorization code, refresh token, or a pre-issued access token), when the current access token expires, and the scopes it grants. The token itself is never returned. There is one token per tenant for the whole server, so every session, including every HTTP client, acts as the same SailPoint user.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  // Audit
+  {
+    name: "verify_audit_log",
+    description:
+      "Verify the hash chain of the local audit log and report the first tampered, missing, or reordered entry.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        includeRotated: {
+          type: "boolean",
+          description: "Also verify rotated log files, oldest first (default true)",
+        },
+      },
+    },
+  },
+  // Cache
+  {
+    name: "cache_stats",
+    description:
+      "Show response cache statistics: entries, size, hit rate overall and per object type, evictions, invalidations, and TTLs.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {},
+    },
+  },
+  // Filters
+  {
+    name: "validate_filter",
+    description:
+      "Check a filters and/or sorters expression for a list tool without calling the tenant. Reports syntax errors and unsupported fields or operators with their column and a corrected expression where one is likely, and lists the endpoint's filterable and sortable fields. List tools run the same checks before sending a request.",
+    inputSchema: {
+      type: "object" as const,
+      properties: {
+        tool: {
+          type: "string",
+          enum: Object.keys(FILTER_ENDPOINTS),
+          description: "List tool the expression is for; without it only the syntax is checked",
+        },
+        filters: {
+          type: "string",
+          description: "Filter expression, e.g. 'name sw \"Admin\" and requestable eq true'",
+        },
+        sorters: {
+          type: "string",
+          description: "Sorters expression, e.g. 'name,-created'",
+        },
       },
     },
   },
 ];
 
+// Tools that run locally and need no tenant
+const localTools = new Set(["list_tenants", "verify_audit_log", "cache_stats", "validate_filter"]);
+
+// Every tenant-scoped tool accepts an optional tenant profile name
+for (const tool of tools) {
+  if (localTools.has(tool.name)) continue;
+  tool.inputSchema.properties = {
+    ...tool.inputSchema.properties,
+    tenant: {
+      type: "string",
+      description: "Tenant profile to run against (see list_tenants; defaults to the default tenant)",
+    },
+  };
+}
+
+// Tools that change state in the tenant; these honour read-only mode, dryRun and confirmation
+const mutatingTools = new Set([
+  "enable_account",
+  "disable_account",
+  "unlock_account",
+  "create_access_profile",
+  "create_role",
+  "decide_certification_items",
+  "reassign_certification_items",
+  "sign_off_certification",
+  "test_workflow",
+  "create_access_request",
+  "approve_access_request",
+  "reject_access_request",
+  "forward_access_request_approval",
+  "offboard_identity",
+  "create_sod_policy",
+  "update_sod_policy",
+  "delete_sod_policy",
+  "run_sod_policy_report",
+  "aggregate_source_accounts",
+  "aggregate_source_entitlements",
+  "create_transform",
+  "update_transform",
+  "delete_transform",
+]);
+
+// Mutating tools that return their own plan and confirmation token instead of using dryRun
+const selfConfirmingTools = new Set(["offboard_identity"]);
+
+for (const tool of tools) {
+  const mutating = mutatingTools.has(tool.name);
+  tool.annotations = { ...tool.annotations, readOnlyHint: !mutating };
+  if (!mutating && !localTools.has(tool.name)) {
+    tool.inputSchema.properties = { ...tool.inputSchema.properties, ...outputProperties };
+  }
+  if (!mutating || selfConfirmingTools.has(tool.name)) continue;
+  tool.inputSchema.properties = {
+    ...tool.inputSchema.properties,
+    dryRun: {
+      type: "boolean",
+      description: "Return the HTTP method, path and body that would be sent, without sending them",
+    },
+    confirmationToken: {
+      type: "string",
+      description: "Token from a previous call of this tool with the same arguments, required when the server asks for confirmation",
+    },
+  };
+}
+
+// Object IDs end up in URL paths and filters, so arguments named id, *Id or *Ids
+// must look like IDs; nested item schemas are covered too
+function addIdPatterns(properties: Record<string, Record<string, unknown>> | undefined): void {
+  for (const [name, property] of Object.entries(properties ?? {})) {
+    const items = property.items as Record<string, unknown> | undefined;
+    if ((name === "id" || name.endsWith("Id")) && property.type === "string") {
+      property.pattern = ID_PATTERN;
+    } else if (name.endsWith("Ids") && items?.type === "string") {
+      items.pattern = ID_PATTERN;
+    }
+    addIdPatterns(property.properties as Record<string, Record<string, unknown>> | undefined);
+    addIdPatterns(items?.properties as Record<string, Record<string, unknown>> | undefined);
+  }
+}
+
+for (const tool of tools) {
+  addIdPatterns(tool.inputSchema.properties as Record<string, Record<string, unknown>> | undefined);
+}
+
+// Tools by name, for argument validation
+const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
+
+// Tools advertised to clients; mutating tools are hidden in read-only mode
+const visibleTools = READ_ONLY ? tools.filter((tool) => !mutatingTools.has(tool.name)) : tools;
+
 // Tool handlers
 async function handleTool(
   name: string,
   args: Record<string, unknown>
 ): Promise<unknown> {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    throw new Error(`Unknown tool: ${name}`);
+  }
+  validateArguments(tool, args);
+
+  // Local tools need no credentials or API client
+  if (name === "list_tenants") {
+    return listTenants();
+  }
+  if (name === "verify_audit_log") {
+    return verifyAuditLog(args.includeRotated !== false);
+  }
+  if (name === "cache_stats") {
+    return getCacheStats();
+  }
+  if (name === "validate_filter") {
+    if (args.filters === undefined && args.sorters === undefined) {
+      throw new Error("validate_filter needs filters, sorters, or both");
+    }
+    return validateFilterExpressions(
+      args.tool as string | undefined,
+      args.filters as string | undefined,
+      args.sorters as string | undefined
+    );
+  }
+  if (name === "preview_transform" && (args.transform == null) === (args.id == null)) {
+    throw new ArgumentValidationError(name, [
+      {
+        path: args.transform == null ? "transform" : "id",
+        message:
+          args.transform == null
+            ? "is required: pass a draft transform, or the id of a saved one"
+            : "cannot be combined with transform; pass a draft or the id of a saved transform, not both",
+      },
+    ]);
+  }
+  // Draft transforms are evaluated without contacting the tenant
+  if (name === "preview_transform" && args.transform) {
+    return previewTransform(args.transform as TransformDefinition, args.sample);
+  }
+
+  // Malformed filters and sorters are reported here rather than as a 400 from the tenant
+  checkFilterArguments(name, args);
+
+  if (READ_ONLY && mutatingTools.has(name)) {
+    throw new Error(
+      `${name} is unavailable: the server is running in read-only mode (SAILPOINT_READ_ONLY=true)`
+    );
+  }
+
+  const tenant = resolveTenant(args.tenant);
+
   // Validate credentials when a tool is actually called
-  validateCredentials();
+  validateCredentials(tenant);
+
+  if (name === "get_auth_status") {
+    return getAuthStatus(tenant);
+  }
+
+  const api = await getApiClient(tenant);
+
+  if (mutatingTools.has(name) && !selfConfirmingTools.has(name)) {
+    if (args.dryRun) {
+      const requests = await captureRequests(api, (dryRunApi) =>
+        runTool(name, args, dryRunApi, tenant)
+      );
+      return { dryRun: true, tool: name, tenant: tenant.name, requests };
+    }
+
+    // Two-step flow: the first call previews the requests and issues a token,
+    // the second call carrying that token executes them
+    if (REQUIRE_CONFIRMATION) {
+      if (!args.confirmationToken) {
+        const requests = await captureRequests(api, (dryRunApi) =>
+          runTool(name, args, dryRunApi, tenant)
+        );
+        return {
+          confirmationRequired: true,
+          tool: name,
+          tenant: tenant.name,
+          requests,
+          ...issueConfirmationToken(name, args),
+          message: `Nothing was sent. Call ${name} again with the same arguments and this confirmationToken to execute.`,
+        };
+      }
+      consumeConfirmationToken(args.confirmationToken as string, name, args);
+    }
+  }
 
-  const api = await getApiClient();
+  if (args.noCache) {
+    return withoutCache(() => runTool(name, args, api, tenant));
+  }
+  return runTool(name, args, api, tenant);
+}
 
-  // Helper to get API path with correct version
+// Execute a tool against the given API client
+async function runTool(
+  name: string,
+  args: Record<string, unknown>,
+  api: AxiosInstance,
+  tenant: TenantProfile
+): Promise<unknown> {
+  // Helper to get API path with the tenant's API version
   const apiPath = (path: string): string => {
-    return path.replace("/v3/", `/${SAILPOINT_API_VERSION}/`);
+    return path.replace("/v3/", `/${tenant.apiVersion}/`);
+  };
+
+  // Helper for endpoints that only exist in beta when running against v3
+  const betaApiPath = (path: string): string => {
+    return tenant.apiVersion === "v3"
+      ? path.replace("/v3/", "/beta/")
+      : apiPath(path);
   };
 
   switch (name) {
@@ -994,15 +3035,34 @@ async function handleTool(
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/public-identities"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/public-identities"), params, args);
     }
 
     case "get_identity": {
-      const response = await api.get(apiPath(`/v3/public-identities/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/public-identities/${args.id}`));
       return response.data;
     }
 
+    case "get_identity_access_summary": {
+      return getIdentityAccessSummary(
+        api,
+        apiPath,
+        args.id as string,
+        args.includeEntitlements !== false
+      );
+    }
+
+    case "compare_to_peers": {
+      return compareToPeers(
+        api,
+        apiPath,
+        args.id as string,
+        args.peerAttribute as string,
+        (args.rareThreshold as number) ?? 10,
+        (args.commonThreshold as number) ?? 50
+      );
+    }
+
     // Accounts
     case "list_accounts": {
       const params: Record<string, string | number> = {};
@@ -1011,12 +3071,11 @@ async function handleTool(
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/accounts"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/accounts"), params, args);
     }
 
     case "get_account": {
-      const response = await api.get(apiPath(`/v3/accounts/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/accounts/${args.id}`));
       return response.data;
     }
 
@@ -1025,28 +3084,77 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(
-        apiPath(`/v3/accounts/${args.accountId}/entitlements`),
-        { params }
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/accounts/${args.accountId}/entitlements`),
+        params,
+        args
       );
-      return response.data;
     }
 
     case "enable_account": {
-      const response = await api.post(apiPath(`/v3/accounts/${args.id}/enable`));
+      const response = await api.post(apiPath(encodePath`/v3/accounts/${args.id}/enable`));
       return response.data;
     }
 
     case "disable_account": {
-      const response = await api.post(apiPath(`/v3/accounts/${args.id}/disable`));
+      const response = await api.post(apiPath(encodePath`/v3/accounts/${args.id}/disable`));
       return response.data;
     }
 
     case "unlock_account": {
-      const response = await api.post(apiPath(`/v3/accounts/${args.id}/unlock`));
+      const response = await api.post(apiPath(encodePath`/v3/accounts/${args.id}/unlock`));
       return response.data;
     }
 
+    case "offboard_identity": {
+      const identityId = args.identityId as string;
+      const plan = await buildOffboardingPlan(
+        api,
+        apiPath,
+        identityId,
+        (args.excludeSources as string[] | undefined) ?? []
+      );
+      if (!args.confirmationToken) {
+        return {
+          confirmationRequired: true,
+          tenant: tenant.name,
+          ...plan,
+          ...issueConfirmationToken(name, args, plan.steps),
+          message: `Nothing was changed. Call offboard_identity again with the same arguments and this confirmationToken to execute the ${plan.steps.length} step(s).`,
+        };
+      }
+
+      // The plan is rebuilt at execution; the token only authorizes the steps that
+      // were previewed, so any change since then needs a fresh confirmation
+      const confirmed = consumeConfirmationToken(args.confirmationToken as string, name, args);
+      if (confirmed.planHash !== hashPlan(plan.steps)) {
+        return {
+          confirmationRequired: true,
+          planChanged: true,
+          tenant: tenant.name,
+          ...diffOffboardingSteps((confirmed.plan as OffboardingStep[] | undefined) ?? [], plan.steps),
+          ...plan,
+          ...issueConfirmationToken(name, args, plan.steps),
+          message: `Nothing was changed: the plan differs from the one that was confirmed (see added and removed). Review it and call offboard_identity again with this confirmationToken to execute the ${plan.steps.length} step(s).`,
+        };
+      }
+      const results = await executeOffboardingPlan(
+        api,
+        apiPath,
+        identityId,
+        plan.steps,
+        args.comment as string | undefined
+      );
+      return {
+        identity: plan.identity,
+        succeeded: results.filter((r) => r.status === "success").length,
+        failed: results.filter((r) => r.status === "failed").length,
+        results,
+        skipped: plan.skipped,
+      };
+    }
+
     // Access Profiles
     case "list_access_profiles": {
       const params: Record<string, string | number> = {};
@@ -1056,12 +3164,11 @@ async function handleTool(
       if (args.sorters) params.sorters = args.sorters as string;
       if (args.forSubadmin) params["for-subadmin"] = args.forSubadmin as string;
 
-      const response = await api.get(apiPath("/v3/access-profiles"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/access-profiles"), params, args);
     }
 
     case "get_access_profile": {
-      const response = await api.get(apiPath(`/v3/access-profiles/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/access-profiles/${args.id}`));
       return response.data;
     }
 
@@ -1093,12 +3200,11 @@ async function handleTool(
       if (args.sorters) params.sorters = args.sorters as string;
       if (args.forSubadmin) params["for-subadmin"] = args.forSubadmin as string;
 
-      const response = await api.get(apiPath("/v3/roles"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/roles"), params, args);
     }
 
     case "get_role": {
-      const response = await api.get(apiPath(`/v3/roles/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/roles/${args.id}`));
       return response.data;
     }
 
@@ -1107,11 +3213,12 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(
-        apiPath(`/v3/roles/${args.roleId}/assigned-identities`),
-        { params }
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/roles/${args.roleId}/assigned-identities`),
+        params,
+        args
       );
-      return response.data;
     }
 
     case "create_role": {
@@ -1139,28 +3246,131 @@ async function handleTool(
       if (args.offset) params.offset = args.offset as number;
       if (args.filters) params.filters = args.filters as string;
 
-      const response = await api.get(apiPath("/v3/certifications"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/certifications"), params, args);
     }
 
     case "get_certification": {
-      const response = await api.get(apiPath(`/v3/certifications/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/certifications/${args.id}`));
       return response.data;
     }
 
-    case "list_certification_campaigns": {
+    case "list_certification_review_items": {
+      const params: Record<string, string | number> = {};
+      if (args.limit) params.limit = args.limit as number;
+      if (args.offset) params.offset = args.offset as number;
+      if (args.filters) params.filters = args.filters as string;
+      if (args.sorters) params.sorters = args.sorters as string;
+      if (args.entitlements) params.entitlements = args.entitlements as string;
+      if (args.accessProfiles) params["access-profiles"] = args.accessProfiles as string;
+      if (args.roles) params.roles = args.roles as string;
+
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/certifications/${args.certificationId}/access-review-items`),
+        params,
+        args
+      );
+    }
+
+    case "list_certification_identity_summaries": {
       const params: Record<string, string | number> = {};
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/campaigns"), { params });
+      return fetchList(
+        api,
+        betaApiPath(encodePath`/v3/certifications/${args.certificationId}/identity-summaries`),
+        params,
+        args
+      );
+    }
+
+    case "list_certification_reviewers": {
+      const params: Record<string, string | number> = {};
+      if (args.limit) params.limit = args.limit as number;
+      if (args.offset) params.offset = args.offset as number;
+
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/certifications/${args.certificationId}/reviewers`),
+        params,
+        args
+      );
+    }
+
+    case "decide_certification_items": {
+      const path = apiPath(encodePath`/v3/certifications/${args.certificationId}/decide`);
+      const decisions = (
+        args.decisions as Array<{ id: string; decision: string; comments?: string }>
+      ).map((d) => ({
+        id: d.id,
+        decision: d.decision,
+        bulk: true,
+        comments: d.comments ?? (args.comments as string | undefined),
+      }));
+
+      // The decide endpoint accepts up to 250 decisions per call and rejects
+      // the whole batch if any one of them is invalid, so a failed batch is
+      // replayed item by item to find out which decisions were rejected.
+      const accepted: Array<{ id: string; decision: string }> = [];
+      const rejected: Array<{ id: string; decision: string; error: ToolError }> = [];
+      for (let i = 0; i < decisions.length; i += 250) {
+        const batch = decisions.slice(i, i + 250);
+        try {
+          await api.post(path, batch);
+          accepted.push(...batch.map((d) => ({ id: d.id, decision: d.decision })));
+        } catch (batchError) {
+          if (batch.length === 1) {
+            rejected.push({ id: batch[0].id, decision: batch[0].decision, error: formatError(batchError) });
+            continue;
+          }
+          for (const d of batch) {
+            try {
+              await api.post(path, [d]);
+              accepted.push({ id: d.id, decision: d.decision });
+            } catch (itemError) {
+              rejected.push({ id: d.id, decision: d.decision, error: formatError(itemError) });
+            }
+          }
+        }
+      }
+
+      return { accepted, rejected };
+    }
+
+    case "reassign_certification_items": {
+      const response = await api.post(
+        apiPath(encodePath`/v3/certifications/${args.certificationId}/reassign`),
+        {
+          reassign: args.items,
+          reassignTo: args.reassignTo,
+          reason: args.reason,
+        }
+      );
+      return response.data;
+    }
+
+    case "sign_off_certification": {
+      const response = await api.post(
+        apiPath(encodePath`/v3/certifications/${args.certificationId}/sign-off`)
+      );
       return response.data;
     }
 
+    case "list_certification_campaigns": {
+      const params: Record<string, string | number> = {};
+      if (args.limit) params.limit = args.limit as number;
+      if (args.offset) params.offset = args.offset as number;
+      if (args.filters) params.filters = args.filters as string;
+      if (args.sorters) params.sorters = args.sorters as string;
+
+      return fetchList(api, apiPath("/v3/campaigns"), params, args);
+    }
+
     case "get_certification_campaign": {
-      const response = await api.get(apiPath(`/v3/campaigns/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/campaigns/${args.id}`));
       return response.data;
     }
 
@@ -1170,12 +3380,11 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(apiPath("/v3/workflows"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/workflows"), params, args);
     }
 
     case "get_workflow": {
-      const response = await api.get(apiPath(`/v3/workflows/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/workflows/${args.id}`));
       return response.data;
     }
 
@@ -1184,15 +3393,16 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(
-        apiPath(`/v3/workflows/${args.workflowId}/executions`),
-        { params }
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/workflows/${args.workflowId}/executions`),
+        params,
+        args
       );
-      return response.data;
     }
 
     case "test_workflow": {
-      const response = await api.post(apiPath(`/v3/workflows/${args.workflowId}/test`), {
+      const response = await api.post(apiPath(encodePath`/v3/workflows/${args.workflowId}/test`), {
         input: args.input || {},
       });
       return response.data;
@@ -1206,40 +3416,85 @@ async function handleTool(
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/sources"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/sources"), params, args);
     }
 
     case "get_source": {
-      const response = await api.get(apiPath(`/v3/sources/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/sources/${args.id}`));
       return response.data;
     }
 
-    // Search
-    case "search": {
-      const queryObj: Record<string, unknown> = {
-        query: args.query,
-      };
-      if (args.queryType) {
-        queryObj.queryType = args.queryType;
+    case "aggregate_source_accounts":
+    case "aggregate_source_entitlements": {
+      // Both endpoints take multipart form data (an optional file upload)
+      const form = new FormData();
+      let path = betaApiPath(encodePath`/v3/sources/${args.id}/load-entitlements`);
+      if (name === "aggregate_source_accounts") {
+        path = betaApiPath(encodePath`/v3/sources/${args.id}/load-accounts`);
+        if (args.disableOptimization) form.append("disableOptimization", "true");
+      }
+
+      const response = await api.post(path, form, {
+        headers: { "Content-Type": "multipart/form-data" },
+      });
+      // Account aggregation wraps the task; entitlement aggregation returns a task reference
+      const taskId = (response.data?.task?.id ?? response.data?.id) as string | undefined;
+      if (!taskId || args.wait === false) {
+        return { taskId: taskId ?? null, started: response.data };
       }
+      return waitForTask(
+        api,
+        apiPath,
+        taskId,
+        (args.waitSeconds as number) || DEFAULT_TASK_WAIT_SECONDS
+      );
+    }
 
+    case "get_task_status": {
+      const response = await api.get(apiPath(encodePath`/v3/task-status/${args.id}`));
+      return { ...summarizeTask(response.data), task: response.data };
+    }
+
+    case "list_source_aggregations": {
+      // The task-status list filters on sourceId, completionStatus and type, and sorts on created
+      const filters = [`sourceId eq "${args.id}"`];
+      if (args.completionStatus) filters.push(`completionStatus eq "${args.completionStatus}"`);
+
+      const response = await api.get(betaApiPath("/v3/task-status"), {
+        params: {
+          filters: filters.join(" and "),
+          sorters: "-created",
+          limit: (args.limit as number) || 10,
+        },
+      });
+      return (response.data as Array<Record<string, unknown>>).map(summarizeTask);
+    }
+
+    // Search
+    case "search": {
+      checkQueryOrWhere(name, args, true);
       const body: Record<string, unknown> = {
         indices: args.indices,
-        query: queryObj,
       };
+      // A structured where is compiled here and echoed back with the results
+      let compiled: CompiledSearchQuery | undefined;
+      if (args.where) {
+        compiled = compileSearchQuery(name, args.where, args.queryType as string | undefined);
+        Object.assign(body, searchQueryBody(compiled));
+      } else {
+        const queryObj: Record<string, unknown> = {
+          query: args.query,
+        };
+        if (args.queryType) {
+          queryObj.queryType = args.queryType;
+        }
+        body.query = queryObj;
+      }
       if (args.sort) body.sort = args.sort;
       if (args.searchAfter) body.searchAfter = args.searchAfter;
 
-      const params: Record<string, number | boolean> = {};
-      if (args.limit) params.limit = args.limit as number;
-      params.count = true;
-
-      const response = await api.post(apiPath("/v3/search"), body, { params });
-      return {
-        results: response.data,
-        totalCount: response.headers["x-total-count"],
-      };
+      const result = await fetchSearch(api, apiPath("/v3/search"), body, args);
+      return compiled ? { compiledQuery: compiled, ...(result as Record<string, unknown>) } : result;
     }
 
     case "search_aggregate": {
@@ -1255,12 +3510,19 @@ async function handleTool(
         aggregationType: args.aggregationType,
         aggregationsRequest: aggregationsRequest,
       };
-      if (args.query) {
-        body.query = { query: args.query };
+      checkQueryOrWhere(name, args, false);
+      let compiled: CompiledSearchQuery | undefined;
+      if (args.where) {
+        compiled = compileSearchQuery(name, args.where, args.queryType as string | undefined);
+        Object.assign(body, searchQueryBody(compiled));
+      } else if (args.query) {
+        body.query = args.queryType ? { query: args.query, queryType: args.queryType } : { query: args.query };
       }
 
-      const response = await api.post(apiPath("/v3/search/aggregate"), body);
-      return response.data;
+      const response = await api.post(apiPath("/v3/search/aggregate"), body, {
+        retrySafe: true,
+      });
+      return compiled ? { compiledQuery: compiled, ...response.data } : response.data;
     }
 
     // Entitlements
@@ -1271,12 +3533,11 @@ async function handleTool(
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/entitlements"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/entitlements"), params, args);
     }
 
     case "get_entitlement": {
-      const response = await api.get(apiPath(`/v3/entitlements/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/entitlements/${args.id}`));
       return response.data;
     }
 
@@ -1290,8 +3551,7 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(apiPath("/v3/access-requests"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/access-requests"), params, args);
     }
 
     case "create_access_request": {
@@ -1301,10 +3561,121 @@ async function handleTool(
         requestType: args.requestType || "GRANT_ACCESS",
       };
 
+      // Revoking access cannot create a conflict, so only grants are checked
+      if (args.failOnSodViolation && body.requestType === "GRANT_ACCESS") {
+        const check = await checkSodForRequest(
+          api,
+          apiPath,
+          args.requestedFor as string[],
+          args.requestedItems as RequestedItem[]
+        );
+        if (check.hasViolations) {
+          const conflicts = (check.identities as Array<{ identityId: string; violations: Array<{ policy?: { name?: string } }> }>)
+            .filter((identity) => identity.violations.length > 0)
+            .map((identity) =>
+              `${identity.identityId} (${identity.violations.map((v) => v.policy?.name).join(", ")})`
+            );
+          throw new Error(
+            `Access request not submitted: it would cause SOD violations for ${conflicts.join("; ")}. ` +
+            `Call check_sod_for_request for the conflicting criteria.`
+          );
+        }
+      }
+
       const response = await api.post(apiPath("/v3/access-requests"), body);
       return response.data;
     }
 
+    // Access Request Approvals
+    case "list_pending_approvals":
+    case "list_completed_approvals": {
+      const params: Record<string, string | number> = {};
+      if (args.ownerId) params["owner-id"] = args.ownerId as string;
+      if (args.limit) params.limit = args.limit as number;
+      if (args.offset) params.offset = args.offset as number;
+      if (args.filters) params.filters = args.filters as string;
+      if (args.sorters) params.sorters = args.sorters as string;
+
+      const state = name === "list_pending_approvals" ? "pending" : "completed";
+      return fetchList(
+        api,
+        apiPath(encodePath`/v3/access-request-approvals/${state}`),
+        params,
+        args
+      );
+    }
+
+    case "get_access_request_approval": {
+      // There is no get-by-ID endpoint for approvals, so look the ID up in
+      // the approver's pending list first and fall back to completed ones.
+      const params: Record<string, string> = {
+        filters: `id eq "${args.id}"`,
+      };
+      if (args.ownerId) params["owner-id"] = args.ownerId as string;
+
+      let approval: Record<string, unknown> | undefined;
+      for (const state of ["pending", "completed"]) {
+        const response = await api.get(
+          apiPath(encodePath`/v3/access-request-approvals/${state}`),
+          { params }
+        );
+        approval = (response.data as Array<Record<string, unknown>>)[0];
+        if (approval) break;
+      }
+      if (!approval) {
+        throw new Error(`Approval not found: ${args.id}`);
+      }
+
+      let history: unknown = null;
+      if (approval.accessRequestId) {
+        const response = await api.get(apiPath("/v3/access-request-status"), {
+          params: { filters: `accessRequestId eq "${approval.accessRequestId}"` },
+        });
+        history = (response.data as unknown[])[0] ?? null;
+      }
+
+      return { approval, history };
+    }
+
+    case "approve_access_request": {
+      const body: Record<string, unknown> = {};
+      if (args.comment) body.comment = args.comment;
+
+      const response = await api.post(
+        apiPath(encodePath`/v3/access-request-approvals/${args.id}/approve`),
+        body
+      );
+      return response.data;
+    }
+
+    case "reject_access_request": {
+      const response = await api.post(
+        apiPath(encodePath`/v3/access-request-approvals/${args.id}/reject`),
+        { comment: args.comment }
+      );
+      return response.data;
+    }
+
+    case "forward_access_request_approval": {
+      const response = await api.post(
+        apiPath(encodePath`/v3/access-request-approvals/${args.id}/forward`),
+        { newOwnerId: args.newOwnerId, comment: args.comment }
+      );
+      return response.data;
+    }
+
+    case "get_approval_summary": {
+      const params: Record<string, string> = {};
+      if (args.ownerId) params["owner-id"] = args.ownerId as string;
+      if (args.fromDate) params["from-date"] = args.fromDate as string;
+
+      const response = await api.get(
+        apiPath("/v3/access-request-approvals/approval-summary"),
+        { params }
+      );
+      return response.data;
+    }
+
     // Identity Profiles
     case "list_identity_profiles": {
       const params: Record<string, string | number> = {};
@@ -1313,15 +3684,60 @@ async function handleTool(
       if (args.filters) params.filters = args.filters as string;
       if (args.sorters) params.sorters = args.sorters as string;
 
-      const response = await api.get(apiPath("/v3/identity-profiles"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/identity-profiles"), params, args);
     }
 
     case "get_identity_profile": {
-      const response = await api.get(apiPath(`/v3/identity-profiles/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/identity-profiles/${args.id}`));
+      return response.data;
+    }
+
+    // Transforms
+    case "list_transforms": {
+      const params: Record<string, string | number> = {};
+      if (args.limit) params.limit = args.limit as number;
+      if (args.offset) params.offset = args.offset as number;
+      if (args.name) params.name = args.name as string;
+      if (args.filters) params.filters = args.filters as string;
+
+      return fetchList(api, apiPath("/v3/transforms"), params, args);
+    }
+
+    case "get_transform": {
+      const response = await api.get(apiPath(encodePath`/v3/transforms/${args.id}`));
+      return response.data;
+    }
+
+    case "create_transform": {
+      const response = await api.post(apiPath("/v3/transforms"), {
+        name: args.name,
+        type: args.type,
+        attributes: args.attributes,
+      });
+      return response.data;
+    }
+
+    case "update_transform": {
+      // PUT needs the unchangeable name and type alongside the new attributes
+      const existing = await api.get(apiPath(encodePath`/v3/transforms/${args.id}`));
+      const response = await api.put(apiPath(encodePath`/v3/transforms/${args.id}`), {
+        name: existing.data.name,
+        type: existing.data.type,
+        attributes: args.attributes,
+      });
       return response.data;
     }
 
+    case "delete_transform": {
+      await api.delete(apiPath(encodePath`/v3/transforms/${args.id}`));
+      return { deleted: true, id: args.id };
+    }
+
+    case "preview_transform": {
+      const response = await api.get(apiPath(encodePath`/v3/transforms/${args.id}`));
+      return previewTransform(response.data, args.sample);
+    }
+
     // SOD Policies
     case "list_sod_policies": {
       const params: Record<string, string | number> = {};
@@ -1329,12 +3745,11 @@ async function handleTool(
       if (args.offset) params.offset = args.offset as number;
       if (args.filters) params.filters = args.filters as string;
 
-      const response = await api.get(apiPath("/v3/sod-policies"), { params });
-      return response.data;
+      return fetchList(api, apiPath("/v3/sod-policies"), params, args);
     }
 
     case "get_sod_policy": {
-      const response = await api.get(apiPath(`/v3/sod-policies/${args.id}`));
+      const response = await api.get(apiPath(encodePath`/v3/sod-policies/${args.id}`));
       return response.data;
     }
 
@@ -1343,25 +3758,111 @@ async function handleTool(
       if (args.limit) params.limit = args.limit as number;
       if (args.offset) params.offset = args.offset as number;
 
-      const response = await api.get(apiPath("/v3/sod-violations/predicted"), { params });
+      return fetchList(api, apiPath("/v3/sod-violations/predicted"), params, args);
+    }
+
+    case "create_sod_policy": {
+      const type = (args.type as string) || "CONFLICTING_ACCESS_BASED";
+      if (type === "GENERAL" && !args.policyQuery) {
+        throw new Error("GENERAL SOD policies require policyQuery");
+      }
+      if (
+        type === "CONFLICTING_ACCESS_BASED" &&
+        (!args.leftEntitlementIds || !args.rightEntitlementIds)
+      ) {
+        throw new Error(
+          "CONFLICTING_ACCESS_BASED SOD policies require leftEntitlementIds and rightEntitlementIds"
+        );
+      }
+
+      const { left, right, ...fields } = sodPolicyFields(args);
+      const body: Record<string, unknown> = { type, state: "NOT_ENFORCED", ...fields };
+      if (left || right) {
+        body.conflictingAccessCriteria = { leftCriteria: left, rightCriteria: right };
+      }
+
+      const response = await api.post(apiPath("/v3/sod-policies"), body);
+      return response.data;
+    }
+
+    case "update_sod_policy": {
+      const { left, right, ...fields } = sodPolicyFields(args);
+      const operations = Object.entries(fields).map(([field, value]) => ({
+        op: "replace",
+        path: `/${field}`,
+        value,
+      }));
+      if (left) {
+        operations.push({ op: "replace", path: "/conflictingAccessCriteria/leftCriteria", value: left });
+      }
+      if (right) {
+        operations.push({ op: "replace", path: "/conflictingAccessCriteria/rightCriteria", value: right });
+      }
+      if (operations.length === 0) {
+        throw new Error("No fields to update");
+      }
+
+      const response = await api.patch(apiPath(encodePath`/v3/sod-policies/${args.id}`), operations, {
+        headers: { "Content-Type": "application/json-patch+json" },
+      });
+      return response.data;
+    }
+
+    case "delete_sod_policy": {
+      await api.delete(apiPath(encodePath`/v3/sod-policies/${args.id}`));
+      return { deleted: true, id: args.id };
+    }
+
+    case "run_sod_policy_report": {
+      const response = await api.post(apiPath(encodePath`/v3/sod-policies/${args.id}/violation-report/run`));
+      return response.data;
+    }
+
+    case "get_sod_policy_report_status": {
+      const response = await api.get(apiPath(encodePath`/v3/sod-policies/${args.id}/violation-report`));
       return response.data;
     }
 
+    case "download_sod_policy_report": {
+      const fileName = args.fileName as string | undefined;
+      const path = fileName
+        ? encodePath`/v3/sod-violation-report/${args.reportResultId}/download/${fileName}`
+        : encodePath`/v3/sod-violation-report/${args.reportResultId}/download`;
+      const response = await api.get(apiPath(path), { responseType: "arraybuffer" });
+
+      const file = writeExportFile(
+        fileName || `sod-violation-report-${args.reportResultId}.zip`,
+        Buffer.from(response.data)
+      );
+      return { reportResultId: args.reportResultId, contentType: response.headers["content-type"], ...file };
+    }
+
+    case "check_sod_for_request": {
+      return checkSodForRequest(
+        api,
+        apiPath,
+        args.requestedFor as string[],
+        args.requestedItems as RequestedItem[]
+      );
+    }
+
     default:
       throw new Error(`Unknown tool: ${name}`);
   }
 }
 
-// Main server setup
-async function main() {
-  // Log startup info but don't validate credentials yet - allow graceful startup
-  const hasCredentials = SAILPOINT_BASE_URL && SAILPOINT_CLIENT_ID && SAILPOINT_CLIENT_SECRET;
-  if (!hasCredentials) {
-    console.error("Warning: SailPoint credentials not configured. Set SAILPOINT_BASE_URL, SAILPOINT_CLIENT_ID, and SAILPOINT_CLIENT_SECRET environment variables.");
-  } else {
-    console.error("SailPoint MCP Server initialized for:", SAILPOINT_BASE_URL);
+// Tenant a call is recorded against in the audit log
+function auditTenantName(name: string, args: Record<string, unknown>): string {
+  if (localTools.has(name)) return "local";
+  try {
+    return resolveTenant(args.tenant).name;
+  } catch {
+    return String(args.tenant);
   }
+}
 
+// Build an MCP server with the SailPoint tool handlers registered
+function createServer(): Server {
   const server = new Server(
     {
       name: "sailpoint-mcp",
@@ -1370,46 +3871,119 @@ async function main() {
     {
       capabilities: {
         tools: {},
+        resources: {},
+        prompts: {},
+        completions: {},
       },
     }
   );
 
   // List tools handler
   server.setRequestHandler(ListToolsRequestSchema, async () => {
-    return { tools };
+    return { tools: visibleTools };
   });
 
   // Call tool handler
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
-    const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name } = request.params;
+    const args = (request.params.arguments ?? {}) as Record<string, unknown>;
 
     try {
-      const result = await handleTool(name, args as Record<string, unknown>);
+      const result = await auditToolCall(
+        name,
+        args,
+        {
+          tenant: auditTenantName(name, args),
+          sessionId: extra.sessionId,
+          mutating: mutatingTools.has(name),
+        },
+        () => handleTool(name, args),
+        summarizeError
+      );
       return {
         content: [
           {
             type: "text",
-            text: JSON.stringify(result, null, 2),
+            text: formatToolResult(name, args, result),
           },
         ],
       };
     } catch (error) {
-      const errorMessage = formatError(error);
+      // Structured for clients that branch on the category, and as text for those that don't
+      const structured = { error: formatError(error) };
       return {
         content: [
           {
             type: "text",
-            text: `Error: ${errorMessage}`,
+            text: JSON.stringify(structured, null, 2),
           },
         ],
+        structuredContent: structured,
         isError: true,
       };
     }
   });
 
+  // Resource handlers, backed by the same handlers as the get_* and list_* tools
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+    return listResources(request.params?.cursor, handleTool);
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return readResource(request.params.uri, handleTool);
+  });
+
+  // Prompt handlers for common governance tasks
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Completion handler for resource template arguments
+  server.setRequestHandler(CompleteRequestSchema, async (request) => {
+    const { ref, argument } = request.params;
+    if (ref.type !== "ref/resource") {
+      return { completion: { values: [] } };
+    }
+    const completion = await completeResourceArgument(
+      ref.uri,
+      argument.name,
+      argument.value,
+      handleTool
+    );
+    return { completion };
+  });
+
+  return server;
+}
+
+// Main server setup
+async function main() {
+  // Log startup info but don't validate credentials yet - allow graceful startup
+  const configuredTenants = listTenants().filter((t) => t.credentialsConfigured);
+  if (configuredTenants.length === 0) {
+    console.error("Warning: SailPoint credentials not configured. Set SAILPOINT_BASE_URL, SAILPOINT_CLIENT_ID, and SAILPOINT_CLIENT_SECRET environment variables, or define tenant profiles in SAILPOINT_TENANTS.");
+  } else {
+    for (const t of configuredTenants) {
+      console.error(`SailPoint MCP Server initialized for: ${t.baseUrl} (tenant "${t.name}"${t.default ? ", default" : ""})`);
+    }
+  }
+
   // Start server
+  if (MCP_TRANSPORT === "http") {
+    await startHttpServer(createServer);
+    return;
+  }
+
   const transport = new StdioServerTransport();
-  await server.connect(transport);
+  await createServer().connect(transport);
   console.error("SailPoint MCP Server running on stdio");
 }
 
@@ -0,0 +1,218 @@
+// Shaping of tool results before they are returned to the client: field
+// projection, compact and table formats, and a cap on response size
+
+const MAX_RESPONSE_CHARS = Number(process.env.SAILPOINT_MAX_RESPONSE_CHARS || 100000);
+
+export type OutputFormat = "full" | "compact" | "table";
+
+// Fields kept by format "compact", per object type. Paths missing from an object are skipped,
+// so lists cover both the list and search shapes of a type.
+const COMPACT_FIELDS: Record<string, string[]> = {
+  identity: [
+    "id", "name", "displayName", "alias", "email", "status", "identityState",
+    "lifecycleState", "manager.name", "attributes.department", "attributes.title",
+  ],
+  account: [
+    "id", "name", "nativeIdentity", "sourceName", "source.name", "identityId",
+    "identity.name", "disabled", "locked", "uncorrelated",
+  ],
+  source: ["id", "name", "type", "connectorName", "authoritative", "healthy", "status"],
+  role: ["id", "name", "description", "owner.name", "enabled", "requestable"],
+  accessprofile: ["id", "name", "description", "source.name", "owner.name", "enabled", "requestable"],
+  entitlement: ["id", "name", "value", "attribute", "source.name", "privileged", "requestable"],
+  certification: [
+    "id", "name", "campaign.name", "phase", "due", "completed", "decisionsMade",
+    "decisionsTotal", "reviewer.name",
+  ],
+  campaign: ["id", "name", "type", "status", "deadline"],
+  workflow: ["id", "name", "enabled", "description"],
+  accessrequest: [
+    "id", "accessRequestId", "name", "type", "state", "requester.name",
+    "requestedFor.name", "requestedObject.name", "created",
+  ],
+  approval: [
+    "id", "name", "requester.name", "requestedFor.name", "requestedObject.name",
+    "requestedObject.type", "created",
+  ],
+  identityprofile: ["id", "name", "authoritativeSource.name", "priority"],
+  sodpolicy: ["id", "name", "type", "state", "ownerRef.name"],
+  transform: ["id", "name", "type"],
+};
+
+// Object type returned by each read tool; search results carry their own _type
+const TOOL_OBJECT_TYPES: Record<string, string> = {
+  list_identities: "identity",
+  get_identity: "identity",
+  list_accounts: "account",
+  get_account: "account",
+  list_sources: "source",
+  get_source: "source",
+  list_roles: "role",
+  get_role: "role",
+  list_access_profiles: "accessprofile",
+  get_access_profile: "accessprofile",
+  list_entitlements: "entitlement",
+  get_entitlement: "entitlement",
+  get_account_entitlements: "entitlement",
+  list_certifications: "certification",
+  get_certification: "certification",
+  list_certification_campaigns: "campaign",
+  get_certification_campaign: "campaign",
+  list_workflows: "workflow",
+  get_workflow: "workflow",
+  list_access_requests: "accessrequest",
+  list_pending_approvals: "approval",
+  list_completed_approvals: "approval",
+  list_identity_profiles: "identityprofile",
+  get_identity_profile: "identityprofile",
+  list_sod_policies: "sodpolicy",
+  get_sod_policy: "sodpolicy",
+  list_transforms: "transform",
+  get_transform: "transform",
+};
+
+// Keys under which paginated and search wrappers hold their results
+const WRAPPED_LIST_KEYS = ["items", "results"];
+
+function getPath(item: unknown, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    item
+  );
+}
+
+// Copy only the given dot paths, keeping their nesting
+function project(item: unknown, paths: string[]): unknown {
+  if (!item || typeof item !== "object" || Array.isArray(item)) return item;
+  const projected: Record<string, unknown> = {};
+  for (const path of paths) {
+    const value = getPath(item, path);
+    if (value === undefined) continue;
+    const keys = path.split(".");
+    let target = projected;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return projected;
+}
+
+// Compact fields for an item; unknown types keep their top-level scalar fields
+function compactFields(item: unknown, toolName: string): string[] {
+  const record = (item && typeof item === "object" ? item : {}) as Record<string, unknown>;
+  const type = typeof record._type === "string" ? record._type : TOOL_OBJECT_TYPES[toolName];
+  if (type && COMPACT_FIELDS[type]) return COMPACT_FIELDS[type];
+  return Object.keys(record).filter((key) => {
+    const value = record[key];
+    return value === null || typeof value !== "object";
+  });
+}
+
+function shapeItem(item: unknown, toolName: string, fields: string[] | undefined, format: OutputFormat): unknown {
+  if (fields) return project(item, fields);
+  // Tables use the compact fields too, as full objects make unreadably wide tables
+  if (format === "compact" || format === "table") return project(item, compactFields(item, toolName));
+  return item;
+}
+
+// Split a result into its list of objects (if any) and the wrapper around it
+function unwrap(result: unknown): { list?: unknown[]; wrapper?: Record<string, unknown>; key?: string } {
+  if (Array.isArray(result)) return { list: result };
+  if (result && typeof result === "object") {
+    const wrapper = result as Record<string, unknown>;
+    const key = WRAPPED_LIST_KEYS.find((k) => Array.isArray(wrapper[k]));
+    if (key) return { list: wrapper[key] as unknown[], wrapper, key };
+  }
+  return {};
+}
+
+function markdownCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function markdownTable(rows: unknown[], columns: string[]): string {
+  const lines = [
+    `| ${columns.map(markdownCell).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+    ...rows.map((row) => `| ${columns.map((column) => markdownCell(getPath(row, column))).join(" | ")} |`),
+  ];
+  return lines.join("\n");
+}
+
+// Columns for a table: the requested fields, else every field path in the shaped rows
+function tableColumns(rows: unknown[], fields: string[] | undefined): string[] {
+  if (fields) return fields;
+  const columns = new Set<string>();
+  const collect = (value: unknown, prefix: string) => {
+    for (const [key, v] of Object.entries(value as Record<string, unknown>)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+      if (v && typeof v === "object" && !Array.isArray(v)) collect(v, path);
+      else columns.add(path);
+    }
+  };
+  rows.forEach((row) => row && typeof row === "object" && !Array.isArray(row) && collect(row, ""));
+  return [...columns];
+}
+
+function render(shaped: unknown, list: unknown[] | undefined, format: OutputFormat, fields?: string[]): string {
+  if (format !== "table") return JSON.stringify(shaped, null, 2);
+
+  const rows = list ?? [shaped];
+  const table = markdownTable(rows, tableColumns(rows, fields));
+  // Keep pagination metadata from wrappers below the table
+  const { list: _list, wrapper, key } = unwrap(shaped);
+  if (!wrapper) return table;
+  const { [key!]: _rows, ...metadata } = wrapper;
+  return `${table}\n\n${Object.entries(metadata)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${k}: ${markdownCell(v)}`)
+    .join(", ")}`;
+}
+
+// Shape a tool result per its fields/format arguments and render it as text
+export function formatToolResult(toolName: string, args: Record<string, unknown>, result: unknown): string {
+  const fields =
+    Array.isArray(args.fields) && args.fields.length > 0 ? (args.fields as string[]) : undefined;
+  const format = ((args.format as string) || "full") as OutputFormat;
+
+  const { list, wrapper, key } = unwrap(result);
+  const shapeAll = (items: unknown[]) => items.map((item) => shapeItem(item, toolName, fields, format));
+  const build = (items?: unknown[]) => {
+    if (!list) return { shaped: shapeItem(result, toolName, fields, format), rows: undefined };
+    const rows = shapeAll(items ?? list);
+    return { shaped: wrapper ? { ...wrapper, [key!]: rows } : rows, rows };
+  };
+
+  let { shaped, rows } = build();
+  let text = render(shaped, rows, format, fields);
+  if (text.length <= MAX_RESPONSE_CHARS) return text;
+
+  if (!list) {
+    return (
+      text.slice(0, MAX_RESPONSE_CHARS) +
+      `\n\n[Response truncated at ${MAX_RESPONSE_CHARS} characters. Request fewer fields with 'fields' or use format "compact".]`
+    );
+  }
+
+  // Drop trailing items until the response fits, then say how to get the rest
+  let count = Math.min(list.length - 1, Math.floor((list.length * MAX_RESPONSE_CHARS) / text.length));
+  for (; count >= 0; count--) {
+    ({ shaped, rows } = build(list.slice(0, count)));
+    text = render(shaped, rows, format, fields);
+    if (text.length <= MAX_RESPONSE_CHARS) break;
+  }
+  count = Math.max(count, 0);
+
+  const continuation =
+    toolName === "search"
+      ? "Narrow the query or pass a smaller limit to page through the rest"
+      : `Call again with offset=${((args.offset as number) || 0) + count} for the next items`;
+  return (
+    `${text}\n\n[Response truncated to ${count} of ${list.length} items to stay under ${MAX_RESPONSE_CHARS} characters. ` +
+    `${continuation}, request fewer fields with 'fields' or format "compact", or use export for the full set.]`
+  );
+}
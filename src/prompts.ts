@@ -0,0 +1,175 @@
+import { GetPromptResult, Prompt } from "@modelcontextprotocol/sdk/types.js";
+
+// Governance prompts advertised to clients. Each one expands into a message
+// sequence that walks the model through the existing tools in a fixed order.
+export const prompts: Prompt[] = [
+  {
+    name: "review_access_before_transfer",
+    title: "Review access before a transfer",
+    description:
+      "Review an identity's current access ahead of a department or role change and recommend what to keep, remove, or request.",
+    arguments: [
+      { name: "identityId", description: "The identity ID of the person transferring", required: true },
+      { name: "newDepartment", description: "Department the person is moving to", required: false },
+      { name: "newJobTitle", description: "Job title after the transfer", required: false },
+    ],
+  },
+  {
+    name: "investigate_sod_violation",
+    title: "Investigate a SOD violation",
+    description:
+      "Investigate a Separation of Duties policy violation: explain the conflict, who holds it, and how to remediate.",
+    arguments: [
+      { name: "policyId", description: "The SOD policy ID", required: true },
+      { name: "identityId", description: "Limit the investigation to one identity", required: false },
+    ],
+  },
+  {
+    name: "prepare_leaver_checklist",
+    title: "Prepare a leaver checklist",
+    description:
+      "Build an offboarding checklist of every account and access item an identity holds, ready for a leaver review.",
+    arguments: [
+      { name: "identityId", description: "The identity ID of the leaver", required: true },
+      { name: "lastDay", description: "Last working day (ISO-8601 date)", required: false },
+    ],
+  },
+  {
+    name: "summarize_certification_campaign",
+    title: "Summarize a certification campaign",
+    description:
+      "Summarize a certification campaign's progress, overdue reviewers, and revocations so far.",
+    arguments: [
+      { name: "campaignId", description: "The certification campaign ID", required: true },
+    ],
+  },
+];
+
+type PromptArgs = Record<string, string | undefined>;
+
+function requireArgs(name: string, args: PromptArgs): void {
+  const prompt = prompts.find((p) => p.name === name)!;
+  const missing = (prompt.arguments || [])
+    .filter((a) => a.required && !args[a.name])
+    .map((a) => a.name);
+  if (missing.length > 0) {
+    throw new Error(`Missing required argument(s) for prompt ${name}: ${missing.join(", ")}`);
+  }
+}
+
+function userMessage(text: string): GetPromptResult["messages"][number] {
+  return { role: "user", content: { type: "text", text } };
+}
+
+// Expand a prompt into its message sequence
+export function getPrompt(name: string, args: PromptArgs = {}): GetPromptResult {
+  if (!prompts.some((p) => p.name === name)) {
+    throw new Error(`Unknown prompt: ${name}`);
+  }
+  requireArgs(name, args);
+
+  switch (name) {
+    case "review_access_before_transfer": {
+      const target = [
+        args.newDepartment && `department "${args.newDepartment}"`,
+        args.newJobTitle && `job title "${args.newJobTitle}"`,
+      ].filter(Boolean).join(" and ");
+      return {
+        description: `Pre-transfer access review for identity ${args.identityId}`,
+        messages: [
+          userMessage(
+            `Review the access of identity ${args.identityId} before their transfer` +
+            (target ? ` to ${target}` : "") + ".\n\n" +
+            `Follow these steps:\n` +
+            `1. Call get_identity_access_summary with id "${args.identityId}" to get their current department, manager, accounts by source with entitlements, roles, access profiles, pending requests, and SOD violations in one call.\n` +
+            `2. If the summary lists errors, retry those lookups with the individual tools (get_identity, list_accounts, get_account_entitlements, list_access_requests, list_sod_violations).`
+          ),
+          userMessage(
+            `Then produce a report with these sections:\n` +
+            `- **Current access**: accounts grouped by source, with roles and access profiles.\n` +
+            `- **Keep**: access still appropriate after the transfer.\n` +
+            `- **Remove**: access tied to the old role or department, with a one-line reason each.\n` +
+            `- **Request**: access peers in the new ${args.newDepartment ? "department" : "role"} typically hold that this identity lacks.\n` +
+            `- **Risks**: SOD conflicts or pending requests that need attention.\n` +
+            `Do not change any access; this is a review only.`
+          ),
+        ],
+      };
+    }
+
+    case "investigate_sod_violation": {
+      return {
+        description: `SOD investigation for policy ${args.policyId}`,
+        messages: [
+          userMessage(
+            `Investigate violations of SOD policy ${args.policyId}` +
+            (args.identityId ? ` for identity ${args.identityId}` : "") + ".\n\n" +
+            `Follow these steps:\n` +
+            `1. Call get_sod_policy with id "${args.policyId}" and explain the conflicting access criteria (left and right sides) in plain language.\n` +
+            `2. Call list_sod_violations and keep the violations that belong to this policy` +
+            (args.identityId ? ` and identity ${args.identityId}` : "") + ".\n" +
+            `3. For each affected identity, call get_identity, and call list_accounts with filters 'identityId eq "<id>"' to see which accounts carry the conflicting access.\n` +
+            `4. Call list_access_requests for each affected identity to find out how the conflicting access was obtained.`
+          ),
+          userMessage(
+            `Then produce a report with these sections:\n` +
+            `- **Policy**: what the policy prevents and why it matters.\n` +
+            `- **Violations**: a table of identity, conflicting items on each side, and how each item was granted.\n` +
+            `- **Remediation**: for each violation, which side to remove and why, or whether a mitigating control is more appropriate.\n` +
+            `Do not change any access; recommend actions only.`
+          ),
+        ],
+      };
+    }
+
+    case "prepare_leaver_checklist": {
+      return {
+        description: `Leaver checklist for identity ${args.identityId}`,
+        messages: [
+          userMessage(
+            `Prepare an offboarding checklist for identity ${args.identityId}` +
+            (args.lastDay ? `, whose last day is ${args.lastDay}` : "") + ".\n\n" +
+            `Follow these steps:\n` +
+            `1. Call get_identity_access_summary with id "${args.identityId}" to confirm the person and their manager, and to list every account by source with its entitlements, their roles and access profiles, and pending requests to cancel.\n` +
+            `2. If the summary lists errors, retry those lookups with the individual tools (get_identity, list_accounts, get_account_entitlements, list_access_requests).\n` +
+            `3. Call list_certifications to check whether they are a reviewer on any open certification that must be reassigned.`
+          ),
+          userMessage(
+            `Then produce a checklist with these sections, each item as a "- [ ]" line:\n` +
+            `- **Accounts to disable**: one line per account with source name and account name; flag already-disabled accounts.\n` +
+            `- **Access to remove**: roles and access profiles to revoke.\n` +
+            `- **Privileged access**: admin or sensitive entitlements that need manual verification.\n` +
+            `- **Open work**: pending requests to cancel and reviews to reassign to the manager.\n` +
+            `Do not disable accounts or remove access; this is a checklist for a human to approve. ` +
+            `Once approved, offboard_identity can execute it.`
+          ),
+        ],
+      };
+    }
+
+    case "summarize_certification_campaign": {
+      return {
+        description: `Progress summary for certification campaign ${args.campaignId}`,
+        messages: [
+          userMessage(
+            `Summarize the progress of certification campaign ${args.campaignId}.\n\n` +
+            `Follow these steps:\n` +
+            `1. Call get_certification_campaign with id "${args.campaignId}" for its status, deadline, and totals.\n` +
+            `2. Call list_certifications with filters 'campaign.id eq "${args.campaignId}"' and fetchAll true to list every reviewer's certification.\n` +
+            `3. For certifications that are not complete, call list_certification_identity_summaries to see how many identities remain.`
+          ),
+          userMessage(
+            `Then produce a summary with these sections:\n` +
+            `- **Overall progress**: percent complete, decisions made, and days until the deadline.\n` +
+            `- **Reviewers behind schedule**: a table of reviewer, items remaining, and percent complete, slowest first.\n` +
+            `- **Revocations**: how many items have been revoked so far.\n` +
+            `- **Risks**: anything likely to miss the deadline and a suggested follow-up for each.`
+          ),
+        ],
+      };
+    }
+
+    default:
+      throw new Error(`Unknown prompt: ${name}`);
+  }
+}
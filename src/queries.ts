@@ -0,0 +1,371 @@
+import { ArgumentIssue, ArgumentValidationError, closestMatch } from "./validation.js";
+
+// Compiler for the structured "where" input of search and search_aggregate, producing
+// SAILPOINT (Lucene) query text or an Elasticsearch DSL body
+
+export const CONDITION_OPERATORS = [
+  "eq",
+  "ne",
+  "in",
+  "startsWith",
+  "contains",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "between",
+  "exists",
+  "missing",
+];
+
+// Nested document types that can be matched as a unit, e.g. one access item that is
+// both an entitlement and from a given source
+export const NESTED_PATHS = ["access", "accounts", "apps"];
+
+// A structured search condition: a field clause, a boolean group, or a nested match
+export interface SearchCondition {
+  field?: string;
+  op?: string;
+  value?: unknown;
+  values?: unknown[];
+  from?: unknown;
+  to?: unknown;
+  and?: SearchCondition[];
+  or?: SearchCondition[];
+  not?: SearchCondition;
+  nested?: string;
+  where?: SearchCondition;
+}
+
+// The query a where condition compiled to, returned alongside results
+export interface CompiledSearchQuery {
+  queryType: "SAILPOINT" | "DSL";
+  query?: string;
+  queryDsl?: Record<string, unknown>;
+}
+
+const FIELD_PATTERN = /^[A-Za-z_][\w.]*$/;
+// Absolute dates and Elasticsearch date math such as now-30d or now/d
+const DATE_VALUE = /^(?:\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?|now(?:[+-]\d+[yMwdhHms])*(?:\/[yMwdhHms])?)$/;
+// Characters with meaning in query_string syntax
+const LUCENE_SPECIAL = /[+\-=&|><!(){}[\]^"~*?:\\/\s]/g;
+
+type Value = string | number | boolean;
+
+const isScalar = (value: unknown): value is Value =>
+  typeof value === "string" || typeof value === "number" || typeof value === "boolean";
+
+// A value as a Lucene term: strings are quoted, numbers and booleans are bare
+function term(value: Value): string {
+  return typeof value === "string" ? `"${value.replace(/["\\]/g, "\\$&")}"` : String(value);
+}
+
+// A range bound: dates, date math and numbers are bare, other strings quoted
+function bound(value: Value): string {
+  return typeof value === "string" && !DATE_VALUE.test(value) ? term(value) : String(value);
+}
+
+// A bound after >, >=, < or <=, where a bare colon would start a new field, so
+// datetimes are quoted; only [from TO to] can take them bare
+function openBound(value: Value): string {
+  return typeof value === "string" && value.includes(":") ? term(value) : bound(value);
+}
+
+type ConditionKind = "clause" | "and" | "or" | "not" | "nested";
+
+const isGroup = (condition: unknown) =>
+  Boolean(condition && typeof condition === "object" && ("and" in condition || "or" in condition));
+
+// Conditions that compile to NOT ...; in query_string syntax "a OR NOT b" means
+// "a AND NOT b", so negated group members are written as (*:* NOT ...)
+const isNegation = (condition: unknown) => {
+  const c = condition as SearchCondition | null;
+  return Boolean(c && typeof c === "object" && (c.not !== undefined || c.op === "ne" || c.op === "missing"));
+};
+
+// Check a condition's shape, returning which kind it is
+function conditionKind(condition: unknown, path: string, issues: ArgumentIssue[]): ConditionKind | undefined {
+  if (!condition || typeof condition !== "object" || Array.isArray(condition)) {
+    issues.push({
+      path,
+      message: "must be an object: a {field, op, value} clause, {and: [...]}, {or: [...]}, {not: {...}}, or {nested, where}",
+    });
+    return undefined;
+  }
+  const c = condition as SearchCondition;
+  const kinds = (["and", "or", "not", "nested"] as const).filter((key) => c[key] !== undefined);
+  if (c.field !== undefined || c.op !== undefined) {
+    if (kinds.length === 0) return "clause";
+    issues.push({ path, message: `mixes a field clause with "${kinds[0]}"; wrap them in {and: [...]} instead` });
+    return undefined;
+  }
+  if (kinds.length !== 1) {
+    issues.push({
+      path,
+      message:
+        kinds.length === 0
+          ? "needs field and op, or one of and, or, not, nested"
+          : `has both ${kinds.join(" and ")}; use one per condition`,
+    });
+    return undefined;
+  }
+  return kinds[0];
+}
+
+function checkClause(c: SearchCondition, path: string, issues: ArgumentIssue[]): boolean {
+  const before = issues.length;
+  if (typeof c.field !== "string" || !FIELD_PATTERN.test(c.field)) {
+    issues.push({
+      path: `${path}.field`,
+      message: `must be a field name such as "attributes.department", got ${JSON.stringify(c.field)}`,
+    });
+  }
+  if (typeof c.op !== "string" || !CONDITION_OPERATORS.includes(c.op)) {
+    issues.push({
+      path: `${path}.op`,
+      message: `must be one of ${CONDITION_OPERATORS.join(", ")}, got ${JSON.stringify(c.op)}`,
+      suggestion: typeof c.op === "string" ? closestMatch(c.op, CONDITION_OPERATORS) : undefined,
+    });
+    return false;
+  }
+
+  switch (c.op) {
+    case "in":
+      if (!Array.isArray(c.values) || c.values.length === 0 || !c.values.every(isScalar)) {
+        issues.push({
+          path: `${path}.values`,
+          message: `"in" needs a non-empty values array of strings, numbers or booleans`,
+        });
+      }
+      break;
+    case "between":
+      if (c.from === undefined && c.to === undefined) {
+        issues.push({ path, message: `"between" needs from, to, or both (e.g. from "now-30d")` });
+      }
+      for (const key of ["from", "to"] as const) {
+        if (c[key] !== undefined && typeof c[key] !== "string" && typeof c[key] !== "number") {
+          issues.push({ path: `${path}.${key}`, message: "must be a date, date math such as now-7d, or a number" });
+        }
+      }
+      break;
+    case "exists":
+    case "missing":
+      break;
+    case "startsWith":
+    case "contains":
+      if (typeof c.value !== "string" || c.value === "") {
+        issues.push({ path: `${path}.value`, message: `"${c.op}" needs a non-empty string value` });
+      }
+      break;
+    default:
+      if (!isScalar(c.value)) {
+        issues.push({ path: `${path}.value`, message: `"${c.op}" needs a string, number or boolean value` });
+      }
+  }
+  return issues.length === before;
+}
+
+function groupMembers(c: SearchCondition, key: "and" | "or", path: string, issues: ArgumentIssue[]): unknown[] {
+  const list = c[key];
+  if (!Array.isArray(list) || list.length === 0) {
+    issues.push({ path: `${path}.${key}`, message: "must be a non-empty array of conditions" });
+    return [];
+  }
+  return list;
+}
+
+function checkNested(c: SearchCondition, path: string, issues: ArgumentIssue[]): boolean {
+  if (typeof c.nested !== "string" || !NESTED_PATHS.includes(c.nested)) {
+    issues.push({
+      path: `${path}.nested`,
+      message: `must be one of ${NESTED_PATHS.join(", ")}, got ${JSON.stringify(c.nested)}`,
+      suggestion: typeof c.nested === "string" ? closestMatch(c.nested, NESTED_PATHS) : undefined,
+    });
+    return false;
+  }
+  if (c.where === undefined) {
+    issues.push({ path: `${path}.where`, message: `is required: the condition one ${c.nested} item must match` });
+    return false;
+  }
+  return true;
+}
+
+// Compile to SAILPOINT query text. Fields inside @access(...) and the other nested
+// matches are relative to the nested item.
+function compileLucene(condition: unknown, path: string, issues: ArgumentIssue[]): string {
+  const kind = conditionKind(condition, path, issues);
+  const c = condition as SearchCondition;
+  switch (kind) {
+    case "clause": {
+      if (!checkClause(c, path, issues)) return "";
+      const field = c.field;
+      const value = c.value as Value;
+      switch (c.op) {
+        case "eq":
+          return `${field}:${term(value)}`;
+        case "ne":
+          return `NOT ${field}:${term(value)}`;
+        case "in":
+          return `${field}:(${(c.values as Value[]).map(term).join(" OR ")})`;
+        case "startsWith":
+          return `${field}:${String(value).replace(LUCENE_SPECIAL, "\\$&")}*`;
+        case "contains":
+          return `${field}:*${String(value).replace(LUCENE_SPECIAL, "\\$&")}*`;
+        case "gt":
+          return `${field}:>${openBound(value)}`;
+        case "gte":
+          return `${field}:>=${openBound(value)}`;
+        case "lt":
+          return `${field}:<${openBound(value)}`;
+        case "lte":
+          return `${field}:<=${openBound(value)}`;
+        case "between": {
+          const from = c.from === undefined ? "*" : bound(c.from as Value);
+          const to = c.to === undefined ? "*" : bound(c.to as Value);
+          return `${field}:[${from} TO ${to}]`;
+        }
+        case "exists":
+          return `_exists_:${field}`;
+        default:
+          return `NOT _exists_:${field}`;
+      }
+    }
+    case "and":
+    case "or": {
+      const members = groupMembers(c, kind, path, issues);
+      return members
+        .map((member, i) => {
+          const text = compileLucene(member, `${path}.${kind}[${i}]`, issues);
+          if (members.length > 1 && isNegation(member)) return `(*:* ${text})`;
+          return members.length > 1 && isGroup(member) ? `(${text})` : text;
+        })
+        .join(kind === "and" ? " AND " : " OR ");
+    }
+    case "not":
+      return `NOT (${compileLucene(c.not, `${path}.not`, issues)})`;
+    case "nested":
+      if (!checkNested(c, path, issues)) return "";
+      return `@${c.nested}(${compileLucene(c.where, `${path}.where`, issues)})`;
+    default:
+      return "";
+  }
+}
+
+// Compile to an Elasticsearch query. Fields inside nested queries need their full
+// path, so they are prefixed with the nested path.
+function compileDsl(
+  condition: unknown,
+  path: string,
+  prefix: string,
+  issues: ArgumentIssue[]
+): Record<string, unknown> {
+  const kind = conditionKind(condition, path, issues);
+  const c = condition as SearchCondition;
+  const not = (query: Record<string, unknown>) => ({ bool: { must_not: [query] } });
+  switch (kind) {
+    case "clause": {
+      if (!checkClause(c, path, issues)) return {};
+      const field = `${prefix}${c.field}`;
+      // Phrase matching mirrors field:"value" in query text
+      const match = (value: Value) =>
+        typeof value === "string" ? { match_phrase: { [field]: value } } : { term: { [field]: value } };
+      switch (c.op) {
+        case "eq":
+          return match(c.value as Value);
+        case "ne":
+          return not(match(c.value as Value));
+        case "in":
+          return { bool: { should: (c.values as Value[]).map(match), minimum_should_match: 1 } };
+        case "startsWith":
+          return { prefix: { [field]: c.value } };
+        case "contains":
+          return { wildcard: { [field]: `*${String(c.value).replace(/[*?\\]/g, "\\$&")}*` } };
+        case "gt":
+        case "gte":
+        case "lt":
+        case "lte":
+          return { range: { [field]: { [c.op]: c.value } } };
+        case "between": {
+          const range: Record<string, unknown> = {};
+          if (c.from !== undefined) range.gte = c.from;
+          if (c.to !== undefined) range.lte = c.to;
+          return { range: { [field]: range } };
+        }
+        case "exists":
+          return { exists: { field } };
+        default:
+          return not({ exists: { field } });
+      }
+    }
+    case "and":
+      return {
+        bool: {
+          must: groupMembers(c, "and", path, issues).map((member, i) =>
+            compileDsl(member, `${path}.and[${i}]`, prefix, issues)
+          ),
+        },
+      };
+    case "or":
+      return {
+        bool: {
+          should: groupMembers(c, "or", path, issues).map((member, i) =>
+            compileDsl(member, `${path}.or[${i}]`, prefix, issues)
+          ),
+          minimum_should_match: 1,
+        },
+      };
+    case "not":
+      return not(compileDsl(c.not, `${path}.not`, prefix, issues));
+    case "nested":
+      if (!checkNested(c, path, issues)) return {};
+      return {
+        nested: {
+          path: `${prefix}${c.nested}`,
+          query: compileDsl(c.where, `${path}.where`, `${prefix}${c.nested}.`, issues),
+        },
+      };
+    default:
+      return {};
+  }
+}
+
+// Compile a where condition for the given queryType (SAILPOINT by default), throwing
+// ArgumentValidationError with the path of every malformed condition
+export function compileSearchQuery(toolName: string, where: unknown, queryType?: string): CompiledSearchQuery {
+  if (queryType && queryType !== "SAILPOINT" && queryType !== "DSL") {
+    throw new ArgumentValidationError(toolName, [
+      { path: "queryType", message: `where compiles to SAILPOINT or DSL queries, not ${queryType}` },
+    ]);
+  }
+
+  const issues: ArgumentIssue[] = [];
+  const compiled: CompiledSearchQuery =
+    queryType === "DSL"
+      ? { queryType: "DSL", queryDsl: compileDsl(where, "where", "", issues) }
+      : { queryType: "SAILPOINT", query: compileLucene(where, "where", issues) };
+  if (issues.length > 0) {
+    throw new ArgumentValidationError(toolName, issues);
+  }
+  return compiled;
+}
+
+// Search body fields for a compiled query
+export function searchQueryBody(compiled: CompiledSearchQuery): Record<string, unknown> {
+  return compiled.queryDsl
+    ? { queryType: "DSL", queryDsl: compiled.queryDsl }
+    : { query: { query: compiled.query } };
+}
+
+// search takes a raw query or a structured where, but not both
+export function checkQueryOrWhere(toolName: string, args: Record<string, unknown>, required: boolean): void {
+  if (args.query !== undefined && args.where !== undefined) {
+    throw new ArgumentValidationError(toolName, [
+      { path: "where", message: "cannot be combined with query; pass one or the other" },
+    ]);
+  }
+  if (required && args.query === undefined && args.where === undefined) {
+    throw new ArgumentValidationError(toolName, [
+      { path: "query", message: "is required unless a structured where condition is given" },
+    ]);
+  }
+}
@@ -0,0 +1,187 @@
+import { Resource, ResourceTemplate } from "@modelcontextprotocol/sdk/types.js";
+
+// Runs a tool by name; resources reuse the tool handlers for fetching
+export type ToolRunner = (name: string, args: Record<string, unknown>) => Promise<unknown>;
+
+// A SailPoint object type exposed as sailpoint://<collection>/{id}
+interface ResourceType {
+  collection: string;
+  title: string;
+  getTool: string;
+  listTool: string;
+  // Field supporting "sw" filtering on the list endpoint, used for completion
+  prefixFilterField?: string;
+}
+
+const resourceTypes: ResourceType[] = [
+  {
+    collection: "identities",
+    title: "Identity",
+    getTool: "get_identity",
+    listTool: "list_identities",
+    prefixFilterField: "alias",
+  },
+  {
+    collection: "sources",
+    title: "Source",
+    getTool: "get_source",
+    listTool: "list_sources",
+    prefixFilterField: "name",
+  },
+  {
+    collection: "roles",
+    title: "Role",
+    getTool: "get_role",
+    listTool: "list_roles",
+    prefixFilterField: "name",
+  },
+  {
+    collection: "access-profiles",
+    title: "Access Profile",
+    getTool: "get_access_profile",
+    listTool: "list_access_profiles",
+    prefixFilterField: "name",
+  },
+  {
+    collection: "workflows",
+    title: "Workflow",
+    getTool: "get_workflow",
+    listTool: "list_workflows",
+  },
+];
+
+const RESOURCE_PAGE_SIZE = 50;
+const MAX_COMPLETIONS = 100;
+
+const templateUri = (type: ResourceType) => `sailpoint://${type.collection}/{id}`;
+
+export const resourceTemplates: ResourceTemplate[] = resourceTypes.map((type) => ({
+  uriTemplate: templateUri(type),
+  name: `sailpoint-${type.collection}`,
+  title: `SailPoint ${type.title}`,
+  description:
+    `A SailPoint ${type.title.toLowerCase()} by ID, as returned by ${type.getTool}. ` +
+    `Append ?tenant=<profile> to read from a specific tenant.`,
+  mimeType: "application/json",
+}));
+
+interface SailPointObject {
+  id?: string;
+  name?: string;
+  displayName?: string;
+  description?: string;
+}
+
+// Parse sailpoint://<collection>/<id>[?tenant=<profile>]
+function parseResourceUri(uri: string): { type: ResourceType; id: string; tenant?: string } {
+  let url: URL;
+  try {
+    url = new URL(uri);
+  } catch {
+    throw new Error(`Invalid resource URI: ${uri}`);
+  }
+  const type = resourceTypes.find((t) => t.collection === url.hostname);
+  const id = decodeURIComponent(url.pathname.replace(/^\//, ""));
+  if (url.protocol !== "sailpoint:" || !type || !id || id.includes("/")) {
+    throw new Error(
+      `Unsupported resource URI: ${uri}. Expected one of ${resourceTemplates.map((t) => t.uriTemplate).join(", ")}`
+    );
+  }
+  return { type, id, tenant: url.searchParams.get("tenant") || undefined };
+}
+
+function toResource(type: ResourceType, item: SailPointObject): Resource {
+  return {
+    uri: `sailpoint://${type.collection}/${encodeURIComponent(item.id || "")}`,
+    name: item.displayName || item.name || item.id || "",
+    title: `${type.title}: ${item.displayName || item.name || item.id}`,
+    description: item.description || undefined,
+    mimeType: "application/json",
+  };
+}
+
+// Page through every resource type in turn; the cursor is "<collection>:<offset>"
+export async function listResources(
+  cursor: string | undefined,
+  runTool: ToolRunner
+): Promise<{ resources: Resource[]; nextCursor?: string }> {
+  const [collection, offsetText] = (cursor || `${resourceTypes[0].collection}:0`).split(":");
+  const typeIndex = resourceTypes.findIndex((t) => t.collection === collection);
+  if (typeIndex < 0) {
+    throw new Error(`Invalid cursor: ${cursor}`);
+  }
+  const type = resourceTypes[typeIndex];
+  const offset = Number(offsetText) || 0;
+
+  const items = (await runTool(type.listTool, {
+    limit: RESOURCE_PAGE_SIZE,
+    offset,
+  })) as SailPointObject[];
+
+  let nextCursor: string | undefined;
+  if (items.length === RESOURCE_PAGE_SIZE) {
+    nextCursor = `${type.collection}:${offset + RESOURCE_PAGE_SIZE}`;
+  } else if (typeIndex + 1 < resourceTypes.length) {
+    nextCursor = `${resourceTypes[typeIndex + 1].collection}:0`;
+  }
+
+  return {
+    resources: items.filter((item) => item.id).map((item) => toResource(type, item)),
+    nextCursor,
+  };
+}
+
+// Fetch one object with the same handler as its get_* tool
+export async function readResource(
+  uri: string,
+  runTool: ToolRunner
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  const { type, id, tenant } = parseResourceUri(uri);
+  const args: Record<string, unknown> = { id };
+  if (tenant) args.tenant = tenant;
+
+  const result = await runTool(type.getTool, args);
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(result, null, 2),
+      },
+    ],
+  };
+}
+
+// Suggest object IDs for a template's {id}, matching the typed prefix against names
+export async function completeResourceArgument(
+  uriTemplate: string,
+  argumentName: string,
+  value: string,
+  runTool: ToolRunner
+): Promise<{ values: string[]; hasMore: boolean }> {
+  const type = resourceTypes.find((t) => templateUri(t) === uriTemplate);
+  if (!type || argumentName !== "id") {
+    return { values: [], hasMore: false };
+  }
+
+  const args: Record<string, unknown> = { limit: MAX_COMPLETIONS };
+  if (value && type.prefixFilterField) {
+    args.filters = `${type.prefixFilterField} sw "${value.replace(/"/g, '\\"')}"`;
+  }
+
+  const items = (await runTool(type.listTool, args)) as SailPointObject[];
+  const prefix = value.toLowerCase();
+  const matches = items.filter(
+    (item) =>
+      item.id &&
+      (!value ||
+        type.prefixFilterField !== undefined ||
+        item.id.toLowerCase().startsWith(prefix) ||
+        (item.name || "").toLowerCase().startsWith(prefix))
+  );
+
+  return {
+    values: matches.map((item) => item.id!).slice(0, MAX_COMPLETIONS),
+    hasMore: items.length === MAX_COMPLETIONS,
+  };
+}
@@ -0,0 +1,140 @@
+import { AxiosError, AxiosInstance, AxiosResponseHeaders, RawAxiosResponseHeaders } from "axios";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Marks a POST that has no side effects (e.g. search) as safe to retry
+    retrySafe?: boolean;
+    // Number of retries already attempted for this request
+    retryCount?: number;
+  }
+}
+
+// Retry configuration
+const MAX_RETRIES = Number(process.env.SAILPOINT_MAX_RETRIES ?? 3);
+const RETRY_BASE_DELAY_MS = Number(process.env.SAILPOINT_RETRY_BASE_DELAY_MS ?? 500);
+const RETRY_MAX_DELAY_MS = Number(process.env.SAILPOINT_RETRY_MAX_DELAY_MS ?? 30000);
+// Maximum HTTP requests (including retries) per process; 0 disables the budget
+const REQUEST_BUDGET = Number(process.env.SAILPOINT_REQUEST_BUDGET ?? 0);
+
+const IDEMPOTENT_METHODS = new Set(["get", "head", "options", "put", "delete"]);
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+const RETRYABLE_NETWORK_CODES = new Set(["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"]);
+
+// Requests sent so far, shared across every client in the process
+let requestsSent = 0;
+// When the tenant reported an exhausted rate limit, the time it resets
+let rateLimitResumeAt = 0;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Read a header value regardless of the casing SailPoint used
+function getHeader(
+  headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined,
+  name: string
+): string | undefined {
+  const value = headers?.[name] ?? headers?.[name.toLowerCase()];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// Delay requested by the tenant via Retry-After or the rate-limit reset header
+function getServerDelayMs(
+  headers: RawAxiosResponseHeaders | AxiosResponseHeaders | undefined
+): number | undefined {
+  const retryAfter = getHeader(headers, "retry-after");
+  if (retryAfter !== undefined) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = getHeader(headers, "x-ratelimit-reset") ?? getHeader(headers, "x-rate-limit-reset");
+  if (reset !== undefined) {
+    const value = Number(reset);
+    if (!Number.isNaN(value)) {
+      // Large values are epoch seconds, small ones are seconds from now
+      return Math.max(0, value > 1e9 ? value * 1000 - Date.now() : value * 1000);
+    }
+  }
+
+  return undefined;
+}
+
+// Jittered exponential backoff ("full jitter")
+function backoffDelayMs(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.floor(Math.random() * ceiling);
+}
+
+// A 429 means the request was never processed, so any method may be retried.
+// Server errors and dropped connections are only retried when repeating the
+// request cannot apply a change twice.
+function isRetryable(error: AxiosError): boolean {
+  const config = error.config;
+  if (!config) return false;
+
+  const status = error.response?.status;
+  if (status === 429) return true;
+
+  const safe = IDEMPOTENT_METHODS.has((config.method || "get").toLowerCase()) || config.retrySafe === true;
+  if (!safe) return false;
+
+  if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+  return error.code !== undefined && RETRYABLE_NETWORK_CODES.has(error.code);
+}
+
+// Install rate-limit handling, retries and the request budget on an axios instance
+export function installRetryInterceptors(client: AxiosInstance): void {
+  client.interceptors.request.use(async (config) => {
+    // Responses served from the cache send nothing to the tenant
+    if (config.cacheHit) return config;
+
+    if (REQUEST_BUDGET > 0 && requestsSent >= REQUEST_BUDGET) {
+      throw new Error(
+        `Request budget exhausted: ${REQUEST_BUDGET} SailPoint API requests already sent by this process. ` +
+        `Restart the server or raise SAILPOINT_REQUEST_BUDGET to continue.`
+      );
+    }
+    requestsSent++;
+
+    // Hold the request back while the tenant's rate limit window is exhausted
+    const wait = rateLimitResumeAt - Date.now();
+    if (wait > 0) {
+      await sleep(Math.min(wait, RETRY_MAX_DELAY_MS));
+    }
+
+    return config;
+  });
+
+  client.interceptors.response.use(
+    (response) => {
+      if (getHeader(response.headers, "x-ratelimit-remaining") === "0") {
+        const delay = getServerDelayMs(response.headers);
+        if (delay !== undefined) rateLimitResumeAt = Date.now() + delay;
+      }
+      return response;
+    },
+    async (error: unknown) => {
+      if (!(error instanceof AxiosError) || !error.config || !isRetryable(error)) {
+        throw error;
+      }
+
+      const config = error.config;
+      const attempt = config.retryCount ?? 0;
+      if (attempt >= MAX_RETRIES) throw error;
+
+      const serverDelay = getServerDelayMs(error.response?.headers);
+      // Give up rather than block a tool call for longer than the configured ceiling
+      if (serverDelay !== undefined && serverDelay > RETRY_MAX_DELAY_MS) throw error;
+
+      const delay = serverDelay ?? backoffDelayMs(attempt);
+      if (error.response?.status === 429) {
+        rateLimitResumeAt = Math.max(rateLimitResumeAt, Date.now() + delay);
+      }
+
+      await sleep(delay);
+      config.retryCount = attempt + 1;
+      return client.request(config);
+    }
+  );
+}
@@ -0,0 +1,143 @@
+import { createHash, randomBytes } from "node:crypto";
+import axios, { AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import { installRetryInterceptors } from "./retry.js";
+
+// Safety configuration
+export const READ_ONLY = process.env.SAILPOINT_READ_ONLY === "true";
+export const REQUIRE_CONFIRMATION = process.env.SAILPOINT_REQUIRE_CONFIRMATION === "true";
+const CONFIRMATION_TTL_MS = Number(process.env.SAILPOINT_CONFIRMATION_TTL_SECONDS || 300) * 1000;
+
+// An HTTP request a mutating tool would send
+export interface PlannedRequest {
+  method: string;
+  path: string;
+  params?: unknown;
+  body?: unknown;
+}
+
+interface PendingConfirmation {
+  toolName: string;
+  argsHash: string;
+  // What the caller previewed, for tools whose plan can change between calls
+  plan?: unknown;
+  planHash?: string;
+  expiresAt: number;
+}
+
+// Outstanding confirmation tokens, each valid for one execution
+const pendingConfirmations = new Map<string, PendingConfirmation>();
+
+// Serialize with sorted keys so equal arguments always hash the same
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Hash the arguments that determine what a call does, ignoring the safety controls
+function hashArgs(args: Record<string, unknown>): string {
+  const { confirmationToken: _token, dryRun: _dryRun, ...rest } = args;
+  return createHash("sha256").update(stableStringify(rest)).digest("hex");
+}
+
+export function hashPlan(plan: unknown): string {
+  return createHash("sha256").update(stableStringify(plan)).digest("hex");
+}
+
+// Run a tool against a client that performs reads but records writes instead of sending them
+export async function captureRequests(
+  api: AxiosInstance,
+  run: (dryRunApi: AxiosInstance) => Promise<unknown>
+): Promise<PlannedRequest[]> {
+  const requests: PlannedRequest[] = [];
+  const sendRequest = axios.getAdapter(axios.defaults.adapter);
+
+  const dryRunApi = axios.create({
+    ...api.defaults,
+    headers: { ...api.defaults.headers.common, "Content-Type": "application/json" },
+    adapter: async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+      const method = (config.method || "get").toUpperCase();
+      if (method === "GET" || config.retrySafe) {
+        return sendRequest(config);
+      }
+
+      requests.push({
+        method,
+        path: config.url || "",
+        params: config.params,
+        body:
+          typeof config.data === "string"
+            ? JSON.parse(config.data)
+            : config.data instanceof FormData
+              ? Object.fromEntries(config.data)
+              : config.data,
+      });
+      return {
+        data: {},
+        status: 202,
+        statusText: "Dry run",
+        headers: {},
+        config,
+      };
+    },
+  });
+  installRetryInterceptors(dryRunApi);
+
+  await run(dryRunApi);
+  return requests;
+}
+
+// Issue a short-lived token that authorizes one execution of exactly these arguments,
+// and of exactly this plan when one is given
+export function issueConfirmationToken(
+  toolName: string,
+  args: Record<string, unknown>,
+  plan?: unknown
+): { confirmationToken: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [token, pending] of pendingConfirmations) {
+    if (pending.expiresAt <= now) pendingConfirmations.delete(token);
+  }
+
+  const confirmationToken = randomBytes(16).toString("hex");
+  const expiresAt = now + CONFIRMATION_TTL_MS;
+  pendingConfirmations.set(confirmationToken, {
+    toolName,
+    argsHash: hashArgs(args),
+    plan,
+    planHash: plan === undefined ? undefined : hashPlan(plan),
+    expiresAt,
+  });
+  return { confirmationToken, expiresAt: new Date(expiresAt).toISOString() };
+}
+
+// Check and consume a confirmation token; throws if it does not authorize this call.
+// Returns the plan and its hash the token was issued for, if any, so the caller can
+// refuse to execute a plan that changed since the preview.
+export function consumeConfirmationToken(
+  token: string,
+  toolName: string,
+  args: Record<string, unknown>
+): { plan?: unknown; planHash?: string } {
+  const pending = pendingConfirmations.get(token);
+  if (!pending || pending.expiresAt <= Date.now()) {
+    pendingConfirmations.delete(token);
+    throw new Error(
+      `Confirmation token is invalid or expired. Call ${toolName} again without confirmationToken to get a new one.`
+    );
+  }
+  if (pending.toolName !== toolName || pending.argsHash !== hashArgs(args)) {
+    throw new Error(
+      `Confirmation token was issued for a different call. Repeat the original ${pending.toolName} arguments exactly, or request a new token.`
+    );
+  }
+  pendingConfirmations.delete(token);
+  return { plan: pending.plan, planHash: pending.planHash };
+}
@@ -0,0 +1,450 @@
+import { readFileSync } from "node:fs";
+import http from "node:http";
+import https from "node:https";
+import axios, { AxiosInstance, AxiosError } from "axios";
+import { installAuditInterceptors } from "./audit.js";
+import { installCacheInterceptors } from "./cache.js";
+import { installRetryInterceptors } from "./retry.js";
+
+declare module "axios" {
+  interface AxiosRequestConfig {
+    // Set once a request has been retried after a 401 with a fresh token
+    authRetried?: boolean;
+  }
+}
+
+// How a tenant obtains access tokens: a client credentials grant (personal access
+// token or API client), a user's authorization code or refresh token, or a
+// pre-issued access token that is used until it expires
+export type AuthMode = "client_credentials" | "authorization_code" | "refresh_token" | "access_token";
+
+// A named SailPoint tenant with its own credentials and API version
+export interface TenantProfile {
+  name: string;
+  baseUrl: string;
+  clientId: string;
+  clientSecret: string;
+  apiVersion: string; // v3 or v2025
+  authMode: AuthMode;
+  accessToken?: string;
+  refreshToken?: string;
+  authorizationCode?: string;
+  redirectUri?: string;
+}
+
+// Per-tenant token cache and HTTP client
+interface TenantState {
+  profile: TenantProfile;
+  accessToken: string | null;
+  tokenExpiry: number;
+  // Latest refresh token; the tenant may rotate it on every refresh
+  refreshToken: string | null;
+  // Authorization code not yet exchanged; codes are single-use
+  authorizationCode: string | null;
+  scopes: string[];
+  // Token request in flight, shared by concurrent callers
+  pendingToken: Promise<string> | null;
+  tokenRefreshes: number;
+  lastRefreshAt: number;
+  apiClient: AxiosInstance | null;
+}
+
+// Token endpoint response
+interface TokenResponse {
+  access_token: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+}
+
+// Shape of a profile in SAILPOINT_TENANTS / SAILPOINT_TENANTS_FILE
+interface TenantProfileConfig {
+  baseUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  // Name of an environment variable holding the client secret, to keep it out of the file
+  clientSecretEnv?: string;
+  apiVersion?: string;
+  // Pre-issued access token, or the name of a variable holding one
+  accessToken?: string;
+  accessTokenEnv?: string;
+  // Refresh token from an authorization code grant, or the name of a variable holding one
+  refreshToken?: string;
+  refreshTokenEnv?: string;
+  // Authorization code to exchange on first use, and the redirect URI it was issued for
+  authorizationCode?: string;
+  redirectUri?: string;
+}
+
+const LEGACY_TENANT_NAME = "default";
+
+// Refresh tokens before they expire, so in-flight requests are not rejected
+const TOKEN_EXPIRY_BUFFER_MS = 60000;
+
+// Pick the auth mode from the credentials a profile supplies
+function authModeOf(credentials: { accessToken?: string; refreshToken?: string; authorizationCode?: string }): AuthMode {
+  if (credentials.authorizationCode) return "authorization_code";
+  if (credentials.refreshToken) return "refresh_token";
+  if (credentials.accessToken) return "access_token";
+  return "client_credentials";
+}
+
+// Claims of a JWT access token, read without verifying the signature
+function decodeTokenClaims(token: string): Record<string, unknown> | undefined {
+  const payload = token.split(".")[1];
+  if (!payload) return undefined;
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+// Scopes granted to a token, from the token response or the token's own claims
+function tokenScopes(token: string, scope?: string): string[] {
+  if (scope) return scope.split(" ").filter(Boolean);
+  const claimed = decodeTokenClaims(token)?.scope;
+  if (Array.isArray(claimed)) return claimed.map(String);
+  return typeof claimed === "string" ? claimed.split(" ").filter(Boolean) : [];
+}
+
+// Expiry of a JWT access token in epoch milliseconds, if it states one
+function tokenExpiryOf(token: string): number | undefined {
+  const exp = decodeTokenClaims(token)?.exp;
+  return typeof exp === "number" ? exp * 1000 : undefined;
+}
+
+// Load tenant profiles from SAILPOINT_TENANTS (inline JSON) or SAILPOINT_TENANTS_FILE,
+// plus the legacy single-tenant SAILPOINT_* variables as the "default" profile
+function loadTenantProfiles(): Map<string, TenantProfile> {
+  const profiles = new Map<string, TenantProfile>();
+
+  const baseUrl = process.env.SAILPOINT_BASE_URL || "";
+  const clientId = process.env.SAILPOINT_CLIENT_ID || "";
+  const clientSecret = process.env.SAILPOINT_CLIENT_SECRET || "";
+  const apiVersion = process.env.SAILPOINT_API_VERSION || "v3";
+  const accessToken = process.env.SAILPOINT_ACCESS_TOKEN || undefined;
+  const refreshToken = process.env.SAILPOINT_REFRESH_TOKEN || undefined;
+  const authorizationCode = process.env.SAILPOINT_AUTH_CODE || undefined;
+  const redirectUri = process.env.SAILPOINT_REDIRECT_URI || undefined;
+
+  let configured: Record<string, TenantProfileConfig> = {};
+  try {
+    if (process.env.SAILPOINT_TENANTS) {
+      configured = JSON.parse(process.env.SAILPOINT_TENANTS);
+    } else if (process.env.SAILPOINT_TENANTS_FILE) {
+      configured = JSON.parse(readFileSync(process.env.SAILPOINT_TENANTS_FILE, "utf8"));
+    }
+  } catch (error) {
+    throw new Error(
+      `Failed to read tenant profiles: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  // Keep the legacy variables working, and as the only profile when none are configured
+  if (baseUrl || clientId || clientSecret || accessToken || refreshToken || Object.keys(configured).length === 0) {
+    profiles.set(LEGACY_TENANT_NAME, {
+      name: LEGACY_TENANT_NAME,
+      baseUrl,
+      clientId,
+      clientSecret,
+      apiVersion,
+      authMode: authModeOf({ accessToken, refreshToken, authorizationCode }),
+      accessToken,
+      refreshToken,
+      authorizationCode,
+      redirectUri,
+    });
+  }
+
+  for (const [name, config] of Object.entries(configured)) {
+    const credentials = {
+      accessToken:
+        config.accessToken || (config.accessTokenEnv ? process.env[config.accessTokenEnv] : undefined) || undefined,
+      refreshToken:
+        config.refreshToken || (config.refreshTokenEnv ? process.env[config.refreshTokenEnv] : undefined) || undefined,
+      authorizationCode: config.authorizationCode || undefined,
+    };
+    profiles.set(name, {
+      name,
+      baseUrl: config.baseUrl || "",
+      clientId: config.clientId || "",
+      clientSecret:
+        config.clientSecret ||
+        (config.clientSecretEnv ? process.env[config.clientSecretEnv] || "" : ""),
+      apiVersion: config.apiVersion || apiVersion,
+      authMode: authModeOf(credentials),
+      ...credentials,
+      redirectUri: config.redirectUri,
+    });
+  }
+
+  return profiles;
+}
+
+// A pre-issued access token is used as is; without an exp claim it is assumed
+// valid until the tenant rejects it
+function initialState(profile: TenantProfile): TenantState {
+  const seeded = profile.accessToken;
+  return {
+    profile,
+    accessToken: seeded ?? null,
+    tokenExpiry: seeded
+      ? tokenExpiryOf(seeded) ?? (profile.authMode === "access_token" ? Number.MAX_SAFE_INTEGER : 0)
+      : 0,
+    refreshToken: profile.refreshToken ?? null,
+    authorizationCode: profile.authorizationCode ?? null,
+    scopes: seeded ? tokenScopes(seeded) : [],
+    pendingToken: null,
+    tokenRefreshes: 0,
+    lastRefreshAt: 0,
+    apiClient: null,
+  };
+}
+
+const tenants = new Map<string, TenantState>(
+  [...loadTenantProfiles()].map(([name, profile]) => [name, initialState(profile)])
+);
+
+const defaultTenantName =
+  process.env.SAILPOINT_DEFAULT_TENANT ||
+  (tenants.has(LEGACY_TENANT_NAME) ? LEGACY_TENANT_NAME : [...tenants.keys()][0]);
+
+// Look up a tenant profile by name, falling back to the default tenant
+export function resolveTenant(name?: unknown): TenantProfile {
+  const tenantName = typeof name === "string" && name ? name : defaultTenantName;
+  const state = tenants.get(tenantName);
+  if (!state) {
+    throw new Error(
+      `Unknown tenant: ${tenantName}. Configured tenants: ${[...tenants.keys()].join(", ")}`
+    );
+  }
+  return state.profile;
+}
+
+// Describe the configured tenants without exposing secrets
+export function listTenants(): Array<Record<string, unknown>> {
+  return [...tenants.values()].map(({ profile, accessToken, tokenExpiry }) => ({
+    name: profile.name,
+    baseUrl: profile.baseUrl,
+    apiVersion: profile.apiVersion,
+    authMode: profile.authMode,
+    default: profile.name === defaultTenantName,
+    credentialsConfigured: missingCredentials(profile).length === 0,
+    tokenCached: Boolean(accessToken && tokenExpiry > Date.now()),
+  }));
+}
+
+// Profile fields the tenant's auth mode needs but lacks, with the matching legacy variables
+function missingCredentials(tenant: TenantProfile): Array<{ field: string; variable: string }> {
+  const required: Array<{ field: string; variable: string; value: string | undefined }> = [
+    { field: "baseUrl", variable: "SAILPOINT_BASE_URL", value: tenant.baseUrl },
+  ];
+  // A pre-issued token needs nothing else; every grant authenticates the client
+  if (tenant.authMode !== "access_token") {
+    required.push(
+      { field: "clientId", variable: "SAILPOINT_CLIENT_ID", value: tenant.clientId },
+      { field: "clientSecret", variable: "SAILPOINT_CLIENT_SECRET", value: tenant.clientSecret }
+    );
+  }
+  if (tenant.authMode === "authorization_code") {
+    required.push({ field: "redirectUri", variable: "SAILPOINT_REDIRECT_URI", value: tenant.redirectUri });
+  }
+  return required.filter((credential) => !credential.value);
+}
+
+// Helper to validate credentials before making API calls
+export function validateCredentials(tenant: TenantProfile): void {
+  const missing = missingCredentials(tenant);
+  if (missing.length === 0) {
+    return;
+  }
+
+  if (tenant.name !== LEGACY_TENANT_NAME) {
+    throw new Error(
+      `Tenant profile "${tenant.name}" is missing ${missing.map((m) => m.field).join(", ")}. ` +
+      `Set baseUrl, clientId, and clientSecret (or clientSecretEnv) in SAILPOINT_TENANTS or SAILPOINT_TENANTS_FILE, ` +
+      `or baseUrl and accessToken (or accessTokenEnv) to use a pre-issued token.`
+    );
+  }
+
+  throw new Error(
+    `Missing required environment variables: ${missing.map((m) => m.variable).join(", ")}. ` +
+    `Please set SAILPOINT_BASE_URL to your tenant API URL (e.g., https://acme.api.identitynow.com), ` +
+    `and SAILPOINT_CLIENT_ID and SAILPOINT_CLIENT_SECRET from your SailPoint tenant Personal Access Token, ` +
+    `or SAILPOINT_ACCESS_TOKEN to use a pre-issued token.`
+  );
+}
+
+// Form parameters for the next token request, by auth mode
+function tokenGrant(state: TenantState): URLSearchParams {
+  const { profile } = state;
+  const client = { client_id: profile.clientId, client_secret: profile.clientSecret };
+
+  if (profile.authMode === "client_credentials") {
+    return new URLSearchParams({ grant_type: "client_credentials", ...client });
+  }
+  if (state.refreshToken) {
+    return new URLSearchParams({ grant_type: "refresh_token", ...client, refresh_token: state.refreshToken });
+  }
+  if (state.authorizationCode) {
+    const code = state.authorizationCode;
+    // Codes are single-use, so a failed exchange is not repeated with the same code
+    state.authorizationCode = null;
+    return new URLSearchParams({
+      grant_type: "authorization_code",
+      ...client,
+      code,
+      redirect_uri: profile.redirectUri || "",
+    });
+  }
+  throw new Error(
+    profile.authMode === "access_token"
+      ? `The access token for tenant "${profile.name}" has expired or was rejected. Supply a new one ` +
+        (profile.name === LEGACY_TENANT_NAME ? "in SAILPOINT_ACCESS_TOKEN." : "as accessToken or accessTokenEnv.")
+      : `Tenant "${profile.name}" has no refresh token to renew its session. ` +
+        `Obtain a new authorization code or refresh token and restart the server.`
+  );
+}
+
+// Request a new access token for the tenant
+async function requestAccessToken(state: TenantState): Promise<string> {
+  const { profile } = state;
+  const params = tokenGrant(state);
+  const now = Date.now();
+
+  try {
+    const response = await axios.post<TokenResponse>(`${profile.baseUrl}/oauth/token`, params.toString(), {
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+    });
+
+    const { access_token: token, expires_in: expiresIn, refresh_token: refreshToken, scope } = response.data;
+    state.accessToken = token;
+    // Set expiry based on expires_in (default to 12 minutes if not provided)
+    state.tokenExpiry = now + (expiresIn || 720) * 1000;
+    state.refreshToken = refreshToken || state.refreshToken;
+    state.scopes = tokenScopes(token, scope);
+    state.tokenRefreshes++;
+    state.lastRefreshAt = now;
+
+    return token;
+  } catch (error) {
+    const axiosError = error as AxiosError<{ error_description?: string }>;
+    throw new Error(
+      `Failed to obtain access token for tenant "${profile.name}" (${params.get("grant_type")} grant): ` +
+        (axiosError.response?.data?.error_description || axiosError.message)
+    );
+  }
+}
+
+// OAuth2 token management. Concurrent callers share one token request, and
+// forceRefresh replaces a token the tenant rejected before its expiry.
+function getAccessToken(state: TenantState, forceRefresh = false): Promise<string> {
+  const { profile } = state;
+  // A pre-issued token cannot be renewed, so it is used right up to its expiry
+  const buffer = profile.authMode === "access_token" ? 0 : TOKEN_EXPIRY_BUFFER_MS;
+
+  // Return cached token if still valid
+  if (!forceRefresh && state.accessToken && state.tokenExpiry > Date.now() + buffer) {
+    return Promise.resolve(state.accessToken);
+  }
+
+  if (!state.pendingToken) {
+    state.pendingToken = requestAccessToken(state).finally(() => {
+      state.pendingToken = null;
+    });
+  }
+  return state.pendingToken;
+}
+
+// Retry a request rejected with a 401 once, with a freshly requested token, so a
+// token revoked or expired mid-session does not fail the tool call
+function installAuthInterceptors(client: AxiosInstance, state: TenantState): void {
+  client.interceptors.response.use(undefined, async (error: unknown) => {
+    if (
+      !(error instanceof AxiosError) ||
+      error.response?.status !== 401 ||
+      !error.config ||
+      error.config.authRetried ||
+      state.profile.authMode === "access_token"
+    ) {
+      throw error;
+    }
+
+    const config = error.config;
+    config.authRetried = true;
+    // Requests that failed together trigger one refresh; later ones reuse its token
+    const staleToken = config.headers.Authorization === `Bearer ${state.accessToken}`;
+    const token = await getAccessToken(state, staleToken);
+    client.defaults.headers.common["Authorization"] = `Bearer ${token}`;
+    config.headers.Authorization = `Bearer ${token}`;
+    return client.request(config);
+  });
+}
+
+// Token status of a tenant without exposing the token, for get_auth_status
+export async function getAuthStatus(tenant: TenantProfile): Promise<Record<string, unknown>> {
+  const state = tenants.get(tenant.name)!;
+  const token = await getAccessToken(state);
+  const claims = decodeTokenClaims(token) ?? {};
+  const expiryKnown = state.tokenExpiry < Number.MAX_SAFE_INTEGER;
+
+  return {
+    tenant: tenant.name,
+    authMode: tenant.authMode,
+    expiresAt: expiryKnown ? new Date(state.tokenExpiry).toISOString() : undefined,
+    expiresInSeconds: expiryKnown ? Math.max(0, Math.round((state.tokenExpiry - Date.now()) / 1000)) : undefined,
+    scopes: state.scopes,
+    identityId: claims.identity_id,
+    userName: claims.user_name,
+    clientId: claims.client_id ?? (tenant.clientId || undefined),
+    refreshable: tenant.authMode === "client_credentials" || Boolean(state.refreshToken),
+    tokenRefreshes: state.tokenRefreshes,
+    lastRefreshAt: state.lastRefreshAt ? new Date(state.lastRefreshAt).toISOString() : undefined,
+  };
+}
+
+// Create or get the tenant's cached axios instance with connection pooling
+export async function getApiClient(tenant: TenantProfile): Promise<AxiosInstance> {
+  const state = tenants.get(tenant.name)!;
+
+  // Update token if needed
+  const token = await getAccessToken(state);
+
+  // Create one instance per tenant with connection pooling
+  if (!state.apiClient) {
+    state.apiClient = axios.create({
+      baseURL: tenant.baseUrl,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      // Enable HTTP Keep-Alive for connection pooling
+      httpAgent: new http.Agent({
+        keepAlive: true,
+        keepAliveMsecs: 30000,
+        maxSockets: 50,
+        maxFreeSockets: 10
+      }),
+      httpsAgent: new https.Agent({
+        keepAlive: true,
+        keepAliveMsecs: 30000,
+        maxSockets: 50,
+        maxFreeSockets: 10
+      }),
+      timeout: 30000, // 30 second timeout
+    });
+    // Audit first so every retry attempt is recorded once; the cache last so
+    // its lookups run before the retry layer's budget and rate-limit checks
+    installAuditInterceptors(state.apiClient);
+    installAuthInterceptors(state.apiClient, state);
+    installRetryInterceptors(state.apiClient);
+    installCacheInterceptors(state.apiClient, tenant.name);
+  }
+
+  // Update authorization header with current token
+  state.apiClient.defaults.headers.common['Authorization'] = `Bearer ${token}`;
+
+  return state.apiClient;
+}
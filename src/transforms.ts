@@ -0,0 +1,356 @@
+// Local evaluator for Identity Security Cloud transforms, used to preview a
+// transform's output against sample data before it is saved to the tenant
+
+// A transform definition as stored in the tenant, or nested inside another
+export interface TransformDefinition {
+  name?: string;
+  type: string;
+  attributes?: Record<string, unknown>;
+}
+
+// Sample data a transform is evaluated against
+export interface TransformSample {
+  // Implicit input, i.e. the source attribute the transform is mapped to
+  input?: unknown;
+  identityAttributes?: Record<string, unknown>;
+  // Account attributes keyed by source name
+  accounts?: Record<string, Record<string, unknown>>;
+}
+
+export const PREVIEWABLE_TRANSFORM_TYPES = [
+  "lower",
+  "upper",
+  "concat",
+  "substring",
+  "replace",
+  "firstValid",
+  "static",
+  "dateFormat",
+  "conditional",
+  "lookup",
+  "accountAttribute",
+  "identityAttribute",
+];
+
+// Named date formats; the rest are Java SimpleDateFormat patterns. ISO8601 and
+// the epoch formats are handled directly.
+const NAMED_DATE_FORMATS: Record<string, string> = {
+  LDAP: "yyyyMMddHHmmss.S'Z'",
+  PEOPLE_SOFT: "MM/dd/yyyy",
+};
+
+const MONTHS = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"];
+
+// Milliseconds between 1601-01-01 (Windows FILETIME epoch) and 1970-01-01
+const WIN32_EPOCH_OFFSET_MS = 11644473600000;
+
+function isTransform(value: unknown): value is TransformDefinition {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    typeof (value as TransformDefinition).type === "string"
+  );
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === "";
+
+const asString = (value: unknown) => (isEmpty(value) ? "" : String(value));
+
+// Split a SimpleDateFormat pattern into letter runs, quoted literals and other characters
+function tokenizeDatePattern(pattern: string): Array<{ field?: string; literal?: string }> {
+  const tokens: Array<{ field?: string; literal?: string }> = [];
+  for (let i = 0; i < pattern.length; ) {
+    const char = pattern[i];
+    if (char === "'") {
+      const end = pattern.indexOf("'", i + 1);
+      const text = pattern.slice(i + 1, end < 0 ? pattern.length : end);
+      tokens.push({ literal: text === "" ? "'" : text });
+      i = end < 0 ? pattern.length : end + 1;
+    } else if (/[A-Za-z]/.test(char)) {
+      let j = i;
+      while (pattern[j] === char) j++;
+      tokens.push({ field: pattern.slice(i, j) });
+      i = j;
+    } else {
+      tokens.push({ literal: char });
+      i++;
+    }
+  }
+  return tokens;
+}
+
+function formatDate(date: Date, format: string): string {
+  if (format === "ISO8601") return date.toISOString();
+  if (format === "EPOCH_TIME_JAVA") return String(date.getTime());
+  if (format === "EPOCH_TIME_WIN32") {
+    return String((BigInt(date.getTime()) + BigInt(WIN32_EPOCH_OFFSET_MS)) * 10000n);
+  }
+
+  const pad = (n: number, width: number) => String(n).padStart(width, "0");
+  return tokenizeDatePattern(NAMED_DATE_FORMATS[format] ?? format)
+    .map(({ field, literal }) => {
+      if (literal !== undefined) return literal;
+      switch (field![0]) {
+        case "y":
+          return field!.length === 2
+            ? pad(date.getUTCFullYear() % 100, 2)
+            : pad(date.getUTCFullYear(), field!.length);
+        case "M":
+          return field!.length >= 3
+            ? MONTHS[date.getUTCMonth()]
+            : pad(date.getUTCMonth() + 1, field!.length);
+        case "d":
+          return pad(date.getUTCDate(), field!.length);
+        case "H":
+          return pad(date.getUTCHours(), field!.length);
+        case "m":
+          return pad(date.getUTCMinutes(), field!.length);
+        case "s":
+          return pad(date.getUTCSeconds(), field!.length);
+        case "S":
+          return pad(date.getUTCMilliseconds(), 3).slice(0, Math.max(field!.length, 1));
+        case "X":
+          return "Z";
+        case "Z":
+          return "+0000";
+        default:
+          throw new Error(`Unsupported date format letter "${field}" in ${format}`);
+      }
+    })
+    .join("");
+}
+
+function parseDate(value: string, format: string): Date {
+  if (format === "ISO8601") return new Date(value);
+  if (format === "EPOCH_TIME_JAVA") return new Date(Number(value));
+  if (format === "EPOCH_TIME_WIN32") {
+    return new Date(Number(BigInt(value) / 10000n - BigInt(WIN32_EPOCH_OFFSET_MS)));
+  }
+
+  // Build a regex with one group per field, then assemble the date in UTC
+  const fields: string[] = [];
+  const source = tokenizeDatePattern(NAMED_DATE_FORMATS[format] ?? format)
+    .map(({ field, literal }) => {
+      if (literal !== undefined) return literal.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+      fields.push(field!);
+      switch (field![0]) {
+        case "y":
+          return field!.length === 2 ? "(\\d{2})" : "(\\d{4})";
+        case "M":
+          return field!.length >= 3 ? `(${MONTHS.join("|")})` : "(\\d{1,2})";
+        case "d":
+        case "H":
+        case "m":
+        case "s":
+          return "(\\d{1,2})";
+        case "S":
+          return "(\\d{1,3})";
+        case "X":
+        case "Z":
+          return "(Z|[+-]\\d{2}:?\\d{2})";
+        default:
+          throw new Error(`Unsupported date format letter "${field}" in ${format}`);
+      }
+    })
+    .join("");
+
+  const match = new RegExp(`^${source}$`).exec(value);
+  if (!match) {
+    throw new Error(`Date "${value}" does not match input format ${format}`);
+  }
+
+  const parts = { year: 1970, month: 0, day: 1, hour: 0, minute: 0, second: 0, ms: 0, offset: 0 };
+  fields.forEach((field, i) => {
+    const text = match[i + 1];
+    switch (field[0]) {
+      case "y":
+        parts.year = field.length === 2 ? 2000 + Number(text) : Number(text);
+        break;
+      case "M":
+        parts.month = field.length >= 3 ? MONTHS.indexOf(text) : Number(text) - 1;
+        break;
+      case "d":
+        parts.day = Number(text);
+        break;
+      case "H":
+        parts.hour = Number(text);
+        break;
+      case "m":
+        parts.minute = Number(text);
+        break;
+      case "s":
+        parts.second = Number(text);
+        break;
+      case "S":
+        parts.ms = Number(text.padEnd(3, "0"));
+        break;
+      default:
+        if (text !== "Z") {
+          const digits = text.replace(":", "");
+          const minutes = Number(digits.slice(1, 3)) * 60 + Number(digits.slice(3, 5));
+          parts.offset = (digits[0] === "-" ? -1 : 1) * minutes;
+        }
+    }
+  });
+
+  return new Date(
+    Date.UTC(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second, parts.ms) -
+      parts.offset * 60000
+  );
+}
+
+// Replace $name and ${name} with the transform's other attributes, evaluated
+function substituteVariables(
+  template: string,
+  attributes: Record<string, unknown>,
+  sample: TransformSample,
+  reserved: string[]
+): string {
+  return template.replace(/\$\{(\w+)\}|\$(\w+)/g, (whole, braced, bare) => {
+    const name = braced ?? bare;
+    if (reserved.includes(name) || !Object.hasOwn(attributes, name)) return whole;
+    return asString(evaluateValue(attributes[name], sample));
+  });
+}
+
+// A literal value, or the output of a nested transform
+function evaluateValue(value: unknown, sample: TransformSample): unknown {
+  return isTransform(value) ? evaluateTransform(value, sample) : value;
+}
+
+// The transform's explicit input, falling back to the implicit input
+function inputOf(attributes: Record<string, unknown>, sample: TransformSample): unknown {
+  return Object.hasOwn(attributes, "input") ? evaluateValue(attributes.input, sample) : sample.input;
+}
+
+// Evaluate a transform against sample data
+export function evaluateTransform(transform: TransformDefinition, sample: TransformSample): unknown {
+  const attributes = transform.attributes ?? {};
+
+  switch (transform.type) {
+    case "lower":
+      return asString(inputOf(attributes, sample)).toLowerCase();
+
+    case "upper":
+      return asString(inputOf(attributes, sample)).toUpperCase();
+
+    case "concat": {
+      if (!Array.isArray(attributes.values)) {
+        throw new Error("concat transform requires a 'values' array");
+      }
+      return attributes.values.map((v) => asString(evaluateValue(v, sample))).join("");
+    }
+
+    case "substring": {
+      const input = asString(inputOf(attributes, sample));
+      const begin = Number(attributes.begin ?? 0);
+      const end = attributes.end === undefined ? -1 : Number(attributes.end);
+      const start = (begin < 0 ? 0 : begin) + Number(attributes.beginOffset ?? 0);
+      const stop = end < 0 ? input.length : end + Number(attributes.endOffset ?? 0);
+      if (start < 0 || stop > input.length || start > stop) {
+        throw new Error(`substring indexes ${start}..${stop} are out of range for "${input}"`);
+      }
+      return input.slice(start, stop);
+    }
+
+    case "replace": {
+      if (typeof attributes.regex !== "string") {
+        throw new Error("replace transform requires a 'regex' string");
+      }
+      return asString(inputOf(attributes, sample)).replace(
+        new RegExp(attributes.regex, "g"),
+        asString(attributes.replacement)
+      );
+    }
+
+    case "firstValid": {
+      if (!Array.isArray(attributes.values)) {
+        throw new Error("firstValid transform requires a 'values' array");
+      }
+      for (const value of attributes.values) {
+        let result: unknown;
+        try {
+          result = evaluateValue(value, sample);
+        } catch (error) {
+          if (attributes.ignoreErrors) continue;
+          throw error;
+        }
+        if (!isEmpty(result)) return result;
+      }
+      return null;
+    }
+
+    case "static":
+      return substituteVariables(asString(attributes.value), attributes, sample, ["value"]);
+
+    case "dateFormat": {
+      const input = inputOf(attributes, sample);
+      if (isEmpty(input)) return null;
+      const inputFormat = (attributes.inputFormat as string) || "ISO8601";
+      const outputFormat = (attributes.outputFormat as string) || "ISO8601";
+      const date = parseDate(String(input), inputFormat);
+      if (Number.isNaN(date.getTime())) {
+        throw new Error(`Date "${input}" is not a valid ${inputFormat} date`);
+      }
+      return formatDate(date, outputFormat);
+    }
+
+    case "conditional": {
+      const reserved = ["expression", "positiveCondition", "negativeCondition"];
+      const expression = substituteVariables(
+        asString(attributes.expression),
+        attributes,
+        sample,
+        reserved
+      );
+      // Conditional transforms only support "<value> eq <value>"
+      const match = /^(.*?)\s+eq\s+(.*)$/.exec(expression);
+      if (!match) {
+        throw new Error(`conditional expression must have the form "ValueA eq ValueB": ${expression}`);
+      }
+      const outcome = match[1].trim() === match[2].trim() ? "positiveCondition" : "negativeCondition";
+      return substituteVariables(asString(attributes[outcome]), attributes, sample, reserved);
+    }
+
+    case "lookup": {
+      const table = attributes.table as Record<string, unknown> | undefined;
+      if (!table || typeof table !== "object") {
+        throw new Error("lookup transform requires a 'table' object");
+      }
+      const key = asString(inputOf(attributes, sample));
+      // Own keys only, so inputs such as "constructor" do not match Object.prototype
+      if (Object.hasOwn(table, key)) return table[key];
+      if (Object.hasOwn(table, "default")) return table.default;
+      throw new Error(`lookup table has no entry for "${key}" and no default`);
+    }
+
+    case "accountAttribute": {
+      const sourceName = attributes.sourceName as string;
+      const attributeName = attributes.attributeName as string;
+      if (!sourceName || !attributeName) {
+        throw new Error("accountAttribute transform requires 'sourceName' and 'attributeName'");
+      }
+      const accounts = sample.accounts ?? {};
+      const account = Object.hasOwn(accounts, sourceName) ? accounts[sourceName] : undefined;
+      if (!account) {
+        throw new Error(`Sample data has no account on source "${sourceName}"`);
+      }
+      return Object.hasOwn(account, attributeName) ? account[attributeName] ?? null : null;
+    }
+
+    case "identityAttribute": {
+      const attributeName = attributes.name as string;
+      if (!attributeName) {
+        throw new Error("identityAttribute transform requires 'name'");
+      }
+      const identityAttributes = sample.identityAttributes ?? {};
+      return Object.hasOwn(identityAttributes, attributeName) ? identityAttributes[attributeName] ?? null : null;
+    }
+
+    default:
+      throw new Error(
+        `Transform type "${transform.type}" cannot be previewed locally. Supported types: ${PREVIEWABLE_TRANSFORM_TYPES.join(", ")}`
+      );
+  }
+}
@@ -0,0 +1,211 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+
+// Runtime checks of tool arguments against each tool's inputSchema, so malformed
+// calls fail with a readable explanation before any request reaches the tenant
+
+// Pattern for SailPoint object IDs: 32 hex characters or a UUID, but any run of
+// letters, digits, hyphens and underscores is accepted
+export const ID_PATTERN = "^[A-Za-z0-9][A-Za-z0-9_-]*$";
+
+// The subset of JSON Schema used by the tool definitions
+interface PropertySchema {
+  type?: string | string[];
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  items?: PropertySchema;
+  properties?: Record<string, PropertySchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+// One problem with one argument; path is a dot/bracket path such as "requestedItems[0].id"
+export interface ArgumentIssue {
+  path: string;
+  message: string;
+  received?: unknown;
+  suggestion?: string;
+}
+
+// Thrown when a tool is called with arguments that do not match its inputSchema
+export class ArgumentValidationError extends Error {
+  constructor(
+    readonly tool: string,
+    readonly issues: ArgumentIssue[]
+  ) {
+    super(
+      `Invalid arguments for ${tool}; no request was sent:\n` +
+        issues
+          .map(
+            (issue) =>
+              `- ${issue.path}: ${issue.message}` +
+              (issue.suggestion !== undefined ? `. Did you mean ${JSON.stringify(issue.suggestion)}?` : "")
+          )
+          .join("\n")
+    );
+    this.name = "ArgumentValidationError";
+  }
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// The candidate closest to a mistyped value, if any is close enough to be a likely typo
+export function closestMatch(value: string, candidates: string[]): string | undefined {
+  const lower = value.toLowerCase();
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(lower, candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best !== undefined && bestDistance <= Math.max(2, Math.ceil(value.length / 3)) ? best : undefined;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+}
+
+const describe = (value: unknown) => {
+  const text = JSON.stringify(value);
+  return text && text.length > 60 ? `${text.slice(0, 57)}...` : text;
+};
+
+function validateValue(value: unknown, schema: PropertySchema, path: string, issues: ArgumentIssue[]): void {
+  const types = schema.type === undefined ? [] : Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (types.length > 0 && !types.some((type) => matchesType(value, type))) {
+    issues.push({
+      path,
+      message: `must be of type ${types.join(" or ")}, got ${typeOf(value)} ${describe(value)}`,
+      received: value,
+    });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    const allowed = schema.enum.map(String);
+    issues.push({
+      path,
+      message: `must be one of ${allowed.join(", ")}, got ${describe(value)}`,
+      received: value,
+      suggestion: typeof value === "string" ? closestMatch(value, allowed) : undefined,
+    });
+    return;
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      issues.push({ path, message: `must be at least ${schema.minimum}, got ${value}`, received: value });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      issues.push({ path, message: `must be at most ${schema.maximum}, got ${value}`, received: value });
+    }
+  }
+
+  if (typeof value === "string" && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    issues.push({
+      path,
+      message:
+        schema.pattern === ID_PATTERN
+          ? `must be a SailPoint object ID such as "2c9180835d2e5168015d32f890ca1581", got ${describe(value)}`
+          : `must match ${schema.pattern}, got ${describe(value)}`,
+      received: value,
+    });
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      issues.push({ path, message: `must have at least ${schema.minItems} item(s)`, received: value });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      issues.push({ path, message: `must have at most ${schema.maxItems} items, got ${value.length}` });
+    }
+    if (schema.items) {
+      value.forEach((item, i) => validateValue(item, schema.items!, `${path}[${i}]`, issues));
+    }
+  }
+
+  if (typeOf(value) === "object" && (schema.properties || schema.required)) {
+    validateObject(value as Record<string, unknown>, schema, path, issues, schema.additionalProperties === false);
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: PropertySchema,
+  path: string,
+  issues: ArgumentIssue[],
+  rejectUnknown: boolean
+): void {
+  const properties = schema.properties ?? {};
+  const prefix = path ? `${path}.` : "";
+
+  for (const name of schema.required ?? []) {
+    if (value[name] === undefined || value[name] === null) {
+      issues.push({ path: `${prefix}${name}`, message: "is required" });
+    }
+  }
+
+  for (const [name, item] of Object.entries(value)) {
+    // Optional arguments sent as null are treated as omitted
+    if (item === undefined || item === null) continue;
+    const property = properties[name];
+    if (property) {
+      validateValue(item, property, `${prefix}${name}`, issues);
+    } else if (rejectUnknown) {
+      issues.push({
+        path: `${prefix}${name}`,
+        message:
+          Object.keys(properties).length > 0
+            ? `is not a known argument (expected one of ${Object.keys(properties).join(", ")})`
+            : "is not a known argument (this takes no arguments)",
+        suggestion: closestMatch(name, Object.keys(properties)),
+      });
+    }
+  }
+}
+
+// Check a call's arguments against the tool's inputSchema, throwing ArgumentValidationError
+// listing every problem. Unknown top-level arguments are rejected so typos such as
+// "filter" for "filters" are not silently ignored.
+export function validateArguments(tool: Tool, args: Record<string, unknown>): void {
+  const issues: ArgumentIssue[] = [];
+  validateObject(args, tool.inputSchema as PropertySchema, "", issues, true);
+  if (issues.length > 0) {
+    throw new ArgumentValidationError(tool.name, issues);
+  }
+}
+
+// Tagged template for URL paths that percent-encodes every interpolated value as a
+// single path segment, e.g. encodePath`/v3/accounts/${id}/disable`
+export function encodePath(strings: TemplateStringsArray, ...values: unknown[]): string {
+  return strings.reduce(
+    (path, text, i) => path + text + (i < values.length ? encodeURIComponent(String(values[i])) : ""),
+    ""
+  );
+}
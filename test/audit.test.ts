@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+
+type AuditModule = typeof import("../src/audit.js");
+
+let loads = 0;
+
+// A fresh copy of the audit module writing to a new log, since it reads its
+// configuration and chain state once per process
+async function loadAudit(
+  env: Record<string, string> = {},
+  path?: string
+): Promise<{ audit: AuditModule; path: string }> {
+  const logPath = path ?? join(mkdtempSync(join(tmpdir(), "audit-test-")), "audit.jsonl");
+  process.env.SAILPOINT_AUDIT_LOG = logPath;
+  process.env.SAILPOINT_AUDIT_LOG_MAX_BYTES = env.maxBytes ?? "";
+  process.env.SAILPOINT_AUDIT_LOG_MAX_FILES = env.maxFiles ?? "";
+  const specifier = `../src/audit.js?load=${++loads}`;
+  return { audit: (await import(specifier)) as AuditModule, path: logPath };
+}
+
+async function writeEntries(audit: AuditModule, count: number): Promise<void> {
+  for (let i = 0; i < count; i++) {
+    await audit.auditToolCall("get_account", { id: `a${i}` }, { tenant: "t" }, async () => i, String);
+  }
+}
+
+const lines = (path: string) => readFileSync(path, "utf8").split("\n").filter(Boolean);
+const rewrite = (path: string, kept: string[]) => writeFileSync(path, kept.map((line) => `${line}\n`).join(""));
+
+describe("verifyAuditLog", () => {
+  it("accepts an untouched log", async () => {
+    const { audit } = await loadAudit();
+    await writeEntries(audit, 3);
+    assert.deepEqual(
+      { ...audit.verifyAuditLog(true), files: undefined, lastHash: undefined },
+      { valid: true, entriesVerified: 3, files: undefined, lastSeq: 3, lastHash: undefined }
+    );
+  });
+
+  // How the log is tampered with, and the reason verification must report
+  const tampering: Array<[string, (entries: string[]) => string[], RegExp]> = [
+    ["entries removed from the start", (entries) => entries.slice(1), /removed from the start/],
+    ["entries removed from the end", (entries) => entries.slice(0, -1), /removed from the end/],
+    ["an entry removed from the middle", (entries) => [entries[0], entries[2]], /prevHash does not match/],
+    ["entries reordered", (entries) => [entries[1], entries[0], entries[2]], /start of the chain/],
+    ["an entry edited", (entries) => [entries[0].replace('"a0"', '"b0"'), ...entries.slice(1)], /hash does not match/],
+    ["a corrupt last line", (entries) => [...entries.slice(0, -1), "{not json"], /not valid JSON/],
+  ];
+  for (const [name, tamper, reason] of tampering) {
+    it(`detects ${name}`, async () => {
+      const { audit, path } = await loadAudit();
+      await writeEntries(audit, 3);
+      rewrite(path, tamper(lines(path)));
+      const result = audit.verifyAuditLog(true) as { valid: boolean; firstInvalid: { reason: string } };
+      assert.equal(result.valid, false);
+      assert.match(result.firstInvalid.reason, reason);
+    });
+  }
+
+  it("detects a deleted anchor", async () => {
+    const { audit, path } = await loadAudit();
+    await writeEntries(audit, 2);
+    unlinkSync(`${path}.anchor`);
+    assert.equal((audit.verifyAuditLog(true) as { valid: boolean }).valid, false);
+  });
+
+  it("follows the chain across rotation, including dropped files", async () => {
+    const { audit, path } = await loadAudit({ maxBytes: "1", maxFiles: "2" });
+    await writeEntries(audit, 5);
+    assert.ok(existsSync(`${path}.2`));
+    assert.equal((audit.verifyAuditLog(true) as { valid: boolean }).valid, true);
+    assert.equal((audit.verifyAuditLog(false) as { valid: boolean }).valid, true);
+  });
+});
+
+describe("chain state after a restart", () => {
+  it("continues the chain from the anchor", async () => {
+    const { audit, path } = await loadAudit();
+    await writeEntries(audit, 2);
+    const { audit: restarted } = await loadAudit({}, path);
+    await writeEntries(restarted, 1);
+    assert.equal(JSON.parse(lines(path)[2]).seq, 3);
+    assert.equal((restarted.verifyAuditLog(true) as { valid: boolean }).valid, true);
+  });
+
+  it("refuses mutating calls when the last entry is corrupt and there is no anchor", async () => {
+    const { audit, path } = await loadAudit();
+    await writeEntries(audit, 2);
+    rewrite(path, [lines(path)[0], "{not json"]);
+    unlinkSync(`${path}.anchor`);
+    const { audit: restarted } = await loadAudit({}, path);
+    let ran = false;
+    const run = async () => {
+      ran = true;
+    };
+    await assert.rejects(
+      restarted.auditToolCall("disable_account", { id: "a1" }, { tenant: "t", mutating: true }, run, String),
+      /disable_account was refused because the audit log cannot record it: .*corrupt entry/
+    );
+    assert.equal(ran, false);
+    assert.equal(lines(path).length, 2);
+  });
+
+  it("still runs reads when the chain cannot be loaded, without restarting it", async () => {
+    const { audit, path } = await loadAudit();
+    await writeEntries(audit, 2);
+    rewrite(path, [lines(path)[0], "{not json"]);
+    unlinkSync(`${path}.anchor`);
+    const { audit: restarted } = await loadAudit({}, path);
+    assert.equal(await restarted.auditToolCall("get_account", { id: "a1" }, { tenant: "t" }, async () => 1, String), 1);
+    assert.equal(lines(path).length, 2);
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+// The cache reads its configuration when loaded
+process.env.SAILPOINT_CACHE = "true";
+const { getCacheStats, installCacheInterceptors, withoutCache } = await import("../src/cache.js");
+
+let sent: string[];
+let client: AxiosInstance;
+let tenant = 0;
+
+// A client whose requests are answered locally and recorded in sent
+function createClient(): AxiosInstance {
+  const instance = axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      sent.push(`${config.method?.toUpperCase()} ${config.url}`);
+      return { data: { url: config.url, n: sent.length }, status: 200, statusText: "OK", headers: {}, config };
+    },
+  });
+  // A fresh tenant name per test keeps entries from leaking between tests
+  installCacheInterceptors(instance, `tenant${++tenant}`);
+  return instance;
+}
+
+beforeEach(() => {
+  sent = [];
+  client = createClient();
+});
+
+describe("response cache", () => {
+  it("serves repeated reads of cacheable types from memory", async () => {
+    const first = await client.get("/v3/accounts/a1");
+    const second = await client.get("/v3/accounts/a1");
+    assert.deepEqual(sent, ["GET /v3/accounts/a1"]);
+    assert.deepEqual(second.data, first.data);
+    assert.equal(second.config.cacheHit, true);
+  });
+
+  it("keys entries on params", async () => {
+    await client.get("/v3/accounts", { params: { limit: 1 } });
+    await client.get("/v3/accounts", { params: { limit: 2 } });
+    assert.equal(sent.length, 2);
+  });
+
+  it("never caches fast-changing types", async () => {
+    await client.get("/v3/task-status/t1");
+    await client.get("/v3/task-status/t1");
+    assert.equal(sent.length, 2);
+  });
+
+  it("caches read-only POSTs such as search", async () => {
+    await client.post("/v3/search", { query: "a" }, { retrySafe: true });
+    await client.post("/v3/search", { query: "a" }, { retrySafe: true });
+    await client.post("/v3/search", { query: "b" }, { retrySafe: true });
+    assert.equal(sent.length, 2);
+  });
+
+  it("returns copies, so callers cannot change cached data", async () => {
+    (await client.get("/v3/roles/r1")).data.url = "changed";
+    assert.equal((await client.get("/v3/roles/r1")).data.url, "/v3/roles/r1");
+  });
+
+  it("evicts the written type and search results after a write", async () => {
+    await client.get("/v3/accounts/a1");
+    await client.post("/v3/search", { query: "a" }, { retrySafe: true });
+    await client.get("/v3/roles/r1");
+    await client.post("/v3/accounts/a1/disable");
+    await client.get("/v3/accounts/a1");
+    await client.post("/v3/search", { query: "a" }, { retrySafe: true });
+    await client.get("/v3/roles/r1");
+    assert.deepEqual(sent, [
+      "GET /v3/accounts/a1",
+      "POST /v3/search",
+      "GET /v3/roles/r1",
+      "POST /v3/accounts/a1/disable",
+      "GET /v3/accounts/a1",
+      "POST /v3/search",
+    ]);
+  });
+
+  it("evicts entries of related types", async () => {
+    await client.get("/v3/roles/r1");
+    await client.put("/v3/access-profiles/p1", {});
+    await client.get("/v3/roles/r1");
+    assert.equal(sent.length, 3);
+  });
+
+  it("bypasses lookups inside withoutCache but still stores the response", async () => {
+    await client.get("/v3/sources/s1");
+    await withoutCache(() => client.get("/v3/sources/s1"));
+    const cached = await client.get("/v3/sources/s1");
+    assert.equal(sent.length, 2);
+    assert.equal(cached.data.n, 2);
+  });
+
+  it("counts hits and misses", async () => {
+    const before = getCacheStats() as { hits: number; misses: number; enabled: boolean };
+    await client.get("/v3/entitlements/e1");
+    await client.get("/v3/entitlements/e1");
+    const after = getCacheStats() as { hits: number; misses: number };
+    assert.equal(before.enabled, true);
+    assert.equal(after.hits - before.hits, 1);
+    assert.equal(after.misses - before.misses, 1);
+  });
+});
@@ -0,0 +1,92 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { checkFilterArguments, lintFilter, lintSorters, validateFilterExpressions } from "../src/filters.js";
+import { ArgumentValidationError } from "../src/validation.js";
+
+describe("lintFilter", () => {
+  const valid: Array<[string, string | undefined]> = [
+    ['name eq "x"', "roles"],
+    ['id in ("a", "b")', "public-identities"],
+    ["uncorrelated eq true", "accounts"],
+    ["created gt 2024-01-01T00:00:00Z", "roles"],
+    ['name eq "x" and not (id eq "y")', undefined],
+    ["name isnull", undefined],
+    ['a eq "x" or (b sw "y" and c pr)', undefined],
+  ];
+  for (const [expression, endpoint] of valid) {
+    it(`accepts ${expression}`, () => assert.deepEqual(lintFilter(expression, endpoint), []));
+  }
+
+  // expression, endpoint, message, position, suggestion
+  const invalid: Array<[string, string | undefined, RegExp, number, string | undefined]> = [
+    ["name sw 'Eng'", "roles", /double quotes/, 8, 'name sw "Eng"'],
+    ['name EQ "x"', "roles", /lowercase/, 5, 'name eq "x"'],
+    ['name = "x"', "roles", /Unknown operator "="/, 5, 'name eq "x"'],
+    ['(name eq "x"', "roles", /Expected "\)"/, 12, undefined],
+    ['id in "a"', "public-identities", /parenthesized list/, 6, undefined],
+    ["name eq", undefined, /Expected a value/, 7, undefined],
+    ['nmae eq "x"', "roles", /not filterable on roles/, 0, 'name eq "x"'],
+    ['uncorrelated eq "true"', "accounts", /takes a boolean value/, 16, undefined],
+  ];
+  for (const [expression, endpoint, message, position, suggestion] of invalid) {
+    it(`rejects ${expression}`, () => {
+      const [error, ...rest] = lintFilter(expression, endpoint);
+      assert.equal(rest.length, 0);
+      assert.match(error.message, message);
+      assert.equal(error.position, position);
+      assert.equal(error.suggestion, suggestion);
+    });
+  }
+
+  it("only checks syntax without an endpoint", () => assert.deepEqual(lintFilter('nmae eq "x"'), []));
+});
+
+describe("lintSorters", () => {
+  const cases: Array<[string, RegExp | undefined, string | undefined]> = [
+    ["name,-created", undefined, undefined],
+    ["+name", /Ascending order is the default/, "name"],
+    ["nmae", /not sortable on roles/, "name"],
+    ["-nmae", /not sortable on roles/, "-name"],
+    ["name,", /Empty sort field/, undefined],
+  ];
+  for (const [expression, message, suggestion] of cases) {
+    it(expression, () => {
+      const errors = lintSorters(expression, "roles");
+      if (!message) return assert.deepEqual(errors, []);
+      assert.equal(errors.length, 1);
+      assert.match(errors[0].message, message);
+      assert.equal(errors[0].suggestion, suggestion);
+    });
+  }
+});
+
+describe("validateFilterExpressions", () => {
+  it("reports 1-based columns and the endpoint's fields", () => {
+    const report = validateFilterExpressions("list_roles", "name sw 'Eng'", "name");
+    assert.equal(report.valid, false);
+    assert.equal(report.endpoint, "roles");
+    const filters = report.filters as { errors: Array<{ column: number; near: string }> };
+    assert.equal(filters.errors[0].column, 9);
+    assert.equal(filters.errors[0].near, "'Eng'");
+    assert.ok(report.fields);
+  });
+
+  it("checks only syntax for tools without a field table", () => {
+    const report = validateFilterExpressions("search", 'anything eq "x"', undefined);
+    assert.equal(report.valid, true);
+    assert.equal(report.checkedFields, false);
+  });
+});
+
+describe("checkFilterArguments", () => {
+  it("throws ArgumentValidationError naming the argument", () =>
+    assert.throws(
+      () => checkFilterArguments("list_roles", { filters: 'name EQ "x"', sorters: "+name" }),
+      (error: unknown) =>
+        error instanceof ArgumentValidationError &&
+        error.issues.map((issue) => issue.path).join() === "filters,sorters"
+    ));
+
+  it("ignores tools and arguments without filters", () =>
+    assert.doesNotThrow(() => checkFilterArguments("get_role", { id: "abc" })));
+});
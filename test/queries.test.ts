@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { compileSearchQuery, searchQueryBody } from "../src/queries.js";
+import { ArgumentValidationError } from "../src/validation.js";
+
+const a = { field: "a", op: "eq", value: "x" };
+const b = { field: "b", op: "eq", value: "y" };
+
+describe("compileSearchQuery (SAILPOINT)", () => {
+  const cases: Array<[string, unknown, string]> = [
+    ["eq", a, 'a:"x"'],
+    ["ne", { field: "b", op: "ne", value: "y" }, 'NOT b:"y"'],
+    ["in", { field: "a", op: "in", values: ["x", 2] }, 'a:("x" OR 2)'],
+    ["startsWith escapes", { field: "name", op: "startsWith", value: "a b" }, "name:a\\ b*"],
+    ["between with date math", { field: "created", op: "between", from: "now-30d" }, "created:[now-30d TO *]"],
+    ["gt with a datetime", { field: "created", op: "gt", value: "2024-01-01T00:00:00Z" }, 'created:>"2024-01-01T00:00:00Z"'],
+    ["lte with a date", { field: "created", op: "lte", value: "2024-01-01" }, "created:<=2024-01-01"],
+    ["gte with date math", { field: "created", op: "gte", value: "now-7d" }, "created:>=now-7d"],
+    ["lt with a number", { field: "count", op: "lt", value: 5 }, "count:<5"],
+    [
+      "between with datetimes",
+      { field: "created", op: "between", from: "2024-01-01T00:00:00Z", to: "2024-02-01T00:00:00Z" },
+      "created:[2024-01-01T00:00:00Z TO 2024-02-01T00:00:00Z]",
+    ],
+    ["exists", { field: "manager", op: "exists" }, "_exists_:manager"],
+    ["missing", { field: "manager", op: "missing" }, "NOT _exists_:manager"],
+    ["and", { and: [a, b] }, 'a:"x" AND b:"y"'],
+    ["or", { or: [a, b] }, 'a:"x" OR b:"y"'],
+    ["or with ne", { or: [a, { field: "b", op: "ne", value: "y" }] }, 'a:"x" OR (*:* NOT b:"y")'],
+    ["or with not", { or: [a, { not: b }] }, 'a:"x" OR (*:* NOT (b:"y"))'],
+    ["or with missing", { or: [a, { field: "m", op: "missing" }] }, 'a:"x" OR (*:* NOT _exists_:m)'],
+    ["and with not", { and: [a, { not: b }] }, 'a:"x" AND (*:* NOT (b:"y"))'],
+    ["nested groups", { and: [a, { or: [b, { not: a }] }] }, 'a:"x" AND (b:"y" OR (*:* NOT (a:"x")))'],
+    ["single negated member", { or: [{ not: b }] }, 'NOT (b:"y")'],
+    ["nested access", { nested: "access", where: { and: [a, b] } }, '@access(a:"x" AND b:"y")'],
+  ];
+  for (const [name, where, expected] of cases) {
+    it(name, () => assert.equal(compileSearchQuery("search", where).query, expected));
+  }
+});
+
+describe("compileSearchQuery (DSL)", () => {
+  it("compiles or/not into bool queries", () => {
+    assert.deepEqual(compileSearchQuery("search", { or: [a, { not: b }] }, "DSL").queryDsl, {
+      bool: {
+        should: [{ match_phrase: { a: "x" } }, { bool: { must_not: [{ match_phrase: { b: "y" } }] } }],
+        minimum_should_match: 1,
+      },
+    });
+  });
+
+  it("prefixes fields inside nested queries", () => {
+    assert.deepEqual(compileSearchQuery("search", { nested: "access", where: a }, "DSL").queryDsl, {
+      nested: { path: "access", query: { match_phrase: { "access.a": "x" } } },
+    });
+  });
+});
+
+describe("compileSearchQuery errors", () => {
+  const cases: Array<[string, unknown, string]> = [
+    ["unknown operator", { field: "a", op: "equals", value: "x" }, "where.op"],
+    ["empty group", { and: [] }, "where.and"],
+    ["clause mixed with group", { field: "a", op: "eq", value: "x", or: [b] }, "where"],
+    ["bad member path", { and: [a, { field: "b", op: "in", values: [] }] }, "where.and[1].values"],
+    ["unknown nested path", { nested: "acess", where: a }, "where.nested"],
+  ];
+  for (const [name, where, path] of cases) {
+    it(name, () =>
+      assert.throws(
+        () => compileSearchQuery("search", where),
+        (error: unknown) =>
+          error instanceof ArgumentValidationError && error.issues.some((issue) => issue.path === path)
+      )
+    );
+  }
+});
+
+describe("searchQueryBody", () => {
+  it("wraps query text", () =>
+    assert.deepEqual(searchQueryBody({ queryType: "SAILPOINT", query: "a" }), { query: { query: "a" } }));
+  it("passes DSL bodies through", () =>
+    assert.deepEqual(searchQueryBody({ queryType: "DSL", queryDsl: { match_all: {} } }), {
+      queryType: "DSL",
+      queryDsl: { match_all: {} },
+    }));
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import axios, { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from "axios";
+
+type RetryModule = typeof import("../src/retry.js");
+
+let loads = 0;
+
+// A fresh copy of the retry module, since it reads its configuration and keeps
+// its request count and rate-limit state per process
+async function loadRetry(budget = 0): Promise<RetryModule> {
+  process.env.SAILPOINT_MAX_RETRIES = "3";
+  process.env.SAILPOINT_RETRY_BASE_DELAY_MS = "1";
+  process.env.SAILPOINT_RETRY_MAX_DELAY_MS = "3000";
+  process.env.SAILPOINT_REQUEST_BUDGET = String(budget);
+  return (await import(`../src/retry.js?load=${++loads}`)) as RetryModule;
+}
+
+// A scripted reply: an HTTP status with optional headers
+type Reply = [number, Record<string, string>?];
+
+// A client answering requests with the scripted replies in order (the last one
+// repeats), recording each request sent
+function createClient(retry: RetryModule, replies: Reply[]): { client: AxiosInstance; sent: string[] } {
+  const sent: string[] = [];
+  const client = axios.create({
+    adapter: async (config: InternalAxiosRequestConfig) => {
+      sent.push(`${config.method?.toUpperCase()} ${config.url}`);
+      const [status, headers = {}] = replies[Math.min(sent.length - 1, replies.length - 1)];
+      const response = { data: {}, status, statusText: String(status), headers, config };
+      if (status >= 400) {
+        throw new AxiosError(`Request failed with status ${status}`, undefined, config, null, response);
+      }
+      return response;
+    },
+  });
+  retry.installRetryInterceptors(client);
+  return { client, sent };
+}
+
+const retry = await loadRetry();
+
+describe("retries", () => {
+  it("retries idempotent requests on 5xx until they succeed", async () => {
+    const { client, sent } = createClient(retry, [[503], [502], [200]]);
+    assert.equal((await client.get("/v3/accounts")).status, 200);
+    assert.equal(sent.length, 3);
+  });
+
+  it("gives up after the configured number of retries", async () => {
+    const { client, sent } = createClient(retry, [[503]]);
+    await assert.rejects(client.get("/v3/accounts"), /status 503/);
+    assert.equal(sent.length, 4);
+  });
+
+  it("does not retry a POST on a 5xx", async () => {
+    const { client, sent } = createClient(retry, [[503], [200]]);
+    await assert.rejects(client.post("/v3/accounts/a1/disable"), /status 503/);
+    assert.equal(sent.length, 1);
+  });
+
+  it("retries a POST marked retrySafe", async () => {
+    const { client, sent } = createClient(retry, [[503], [200]]);
+    assert.equal((await client.post("/v3/search", {}, { retrySafe: true })).status, 200);
+    assert.equal(sent.length, 2);
+  });
+
+  it("retries a POST on a 429, since it was never processed", async () => {
+    const { client, sent } = createClient(retry, [[429, { "retry-after": "0" }], [200]]);
+    assert.equal((await client.post("/v3/accounts/a1/disable")).status, 200);
+    assert.equal(sent.length, 2);
+  });
+
+  it("does not retry other client errors", async () => {
+    const { client, sent } = createClient(retry, [[400], [200]]);
+    await assert.rejects(client.get("/v3/accounts"), /status 400/);
+    assert.equal(sent.length, 1);
+  });
+});
+
+describe("Retry-After", () => {
+  // Time taken by a GET that is answered with a 429 carrying the header, then a 200
+  async function delayFor(retryAfter: string): Promise<number> {
+    const { client } = createClient(retry, [[429, { "retry-after": retryAfter }], [200]]);
+    const start = Date.now();
+    await client.get("/v3/accounts");
+    return Date.now() - start;
+  }
+
+  it("waits the given number of seconds", async () => {
+    assert.ok((await delayFor("1")) >= 950);
+  });
+
+  it("waits until the given HTTP date", async () => {
+    const delay = await delayFor(new Date(Date.now() + 2000).toUTCString());
+    // HTTP dates have whole-second precision
+    assert.ok(delay >= 950 && delay < 2500, `waited ${delay} ms`);
+  });
+
+  it("gives up at once when the wait exceeds the configured maximum", async () => {
+    const { client, sent } = createClient(retry, [[429, { "retry-after": "60" }], [200]]);
+    const start = Date.now();
+    await assert.rejects(client.get("/v3/accounts"), /status 429/);
+    assert.ok(Date.now() - start < 500);
+    assert.equal(sent.length, 1);
+  });
+});
+
+describe("request budget", () => {
+  it("refuses requests once the budget is spent, counting retries", async () => {
+    const budgeted = await loadRetry(3);
+    const { client, sent } = createClient(budgeted, [[503], [200]]);
+    await client.get("/v3/accounts");
+    await client.get("/v3/accounts");
+    await assert.rejects(client.get("/v3/accounts"), /Request budget exhausted: 3/);
+    assert.equal(sent.length, 3);
+  });
+});
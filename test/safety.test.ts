@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { after, before, describe, it } from "node:test";
+import axios from "axios";
+
+// The token lifetime is read when the module loads
+process.env.SAILPOINT_CONFIRMATION_TTL_SECONDS = "0.2";
+const { captureRequests, consumeConfirmationToken, hashPlan, issueConfirmationToken } = await import(
+  "../src/safety.js"
+);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe("confirmation tokens", () => {
+  const args = { id: "a1", comment: "leaver" };
+
+  it("authorize one execution of the same call", () => {
+    const { confirmationToken } = issueConfirmationToken("disable_account", args);
+    assert.doesNotThrow(() => consumeConfirmationToken(confirmationToken, "disable_account", args));
+    assert.throws(
+      () => consumeConfirmationToken(confirmationToken, "disable_account", args),
+      /invalid or expired/
+    );
+  });
+
+  it("ignore dryRun, confirmationToken and key order when matching arguments", () => {
+    const { confirmationToken } = issueConfirmationToken("disable_account", { ...args, dryRun: false });
+    assert.doesNotThrow(() =>
+      consumeConfirmationToken(confirmationToken, "disable_account", {
+        comment: "leaver",
+        id: "a1",
+        confirmationToken,
+      })
+    );
+  });
+
+  const mismatches: Array<[string, string, Record<string, unknown>]> = [
+    ["different arguments", "disable_account", { ...args, id: "a2" }],
+    ["an extra argument", "disable_account", { ...args, forceProvisioning: true }],
+    ["a different tool", "enable_account", args],
+  ];
+  for (const [name, toolName, callArgs] of mismatches) {
+    it(`refuse ${name} without consuming the token`, () => {
+      const { confirmationToken } = issueConfirmationToken("disable_account", args);
+      assert.throws(
+        () => consumeConfirmationToken(confirmationToken, toolName, callArgs),
+        /issued for a different call/
+      );
+      assert.doesNotThrow(() => consumeConfirmationToken(confirmationToken, "disable_account", args));
+    });
+  }
+
+  it("refuse unknown tokens", () =>
+    assert.throws(() => consumeConfirmationToken("nope", "disable_account", args), /invalid or expired/));
+
+  it("expire after the configured lifetime", async () => {
+    const { confirmationToken, expiresAt } = issueConfirmationToken("disable_account", args);
+    assert.ok(Date.parse(expiresAt) - Date.now() <= 200);
+    await sleep(250);
+    assert.throws(
+      () => consumeConfirmationToken(confirmationToken, "disable_account", args),
+      /invalid or expired/
+    );
+  });
+
+  it("return the plan they were issued for", () => {
+    const plan = [{ action: "DISABLE_ACCOUNT", id: "a1" }];
+    const { confirmationToken } = issueConfirmationToken("offboard_identity", args, plan);
+    assert.deepEqual(consumeConfirmationToken(confirmationToken, "offboard_identity", args), {
+      plan,
+      planHash: hashPlan([{ id: "a1", action: "DISABLE_ACCOUNT" }]),
+    });
+  });
+});
+
+describe("captureRequests", () => {
+  let server: Server;
+  let received: string[];
+  let baseURL: string;
+
+  before(async () => {
+    server = createServer((req, res) => {
+      received.push(`${req.method} ${req.url}`);
+      res.setHeader("Content-Type", "application/json");
+      res.end(JSON.stringify({ id: "a1", name: "Jane" }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+  it("sends reads and records writes without sending them", async () => {
+    received = [];
+    const api = axios.create({ baseURL });
+    const requests = await captureRequests(api, async (dryRunApi) => {
+      const account = await dryRunApi.get("/v3/accounts/a1");
+      await dryRunApi.post("/v3/search", { query: "x" }, { retrySafe: true });
+      await dryRunApi.post("/v3/accounts/a1/disable", { name: account.data.name }, { params: { force: true } });
+      await dryRunApi.delete("/v3/roles/r1");
+    });
+    assert.deepEqual(received, ["GET /v3/accounts/a1", "POST /v3/search"]);
+    assert.deepEqual(requests, [
+      { method: "POST", path: "/v3/accounts/a1/disable", params: { force: true }, body: { name: "Jane" } },
+      { method: "DELETE", path: "/v3/roles/r1", params: undefined, body: undefined },
+    ]);
+  });
+});
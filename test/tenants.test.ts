@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { beforeEach, describe, it } from "node:test";
+import axios, { AxiosError, InternalAxiosRequestConfig } from "axios";
+
+// Profiles are read when the module loads; each test uses its own tenant so
+// token state does not carry over between tests
+process.env.SAILPOINT_TENANTS = JSON.stringify({
+  shared: { baseUrl: "https://shared.example", clientId: "id", clientSecret: "secret" },
+  revoked: { baseUrl: "https://revoked.example", clientId: "id", clientSecret: "secret" },
+  rejected: { baseUrl: "https://rejected.example", clientId: "id", clientSecret: "secret" },
+  static: { baseUrl: "https://static.example", accessToken: "static-token" },
+});
+const { getApiClient, resolveTenant } = await import("../src/tenants.js");
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Token and API requests per tenant host, and tokens the tenant no longer accepts
+let tokenRequests: Record<string, number>;
+let apiRequests: Record<string, number>;
+const revokedTokens = new Set<string>();
+
+// Every request, from the token grant and the tenant clients alike, is answered here
+axios.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+  const host = new URL(config.url!, config.baseURL).host.split(".")[0];
+  const reply = (status: number, data: unknown) => {
+    const response = { data, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status ${status}`, undefined, config, null, response);
+    }
+    return response;
+  };
+
+  if (config.url!.endsWith("/oauth/token")) {
+    tokenRequests[host] = (tokenRequests[host] ?? 0) + 1;
+    // Slow enough for concurrent callers to overlap
+    await sleep(20);
+    return reply(200, { access_token: `${host}-${tokenRequests[host]}`, expires_in: 3600 });
+  }
+
+  apiRequests[host] = (apiRequests[host] ?? 0) + 1;
+  const token = String(config.headers.Authorization).replace("Bearer ", "");
+  if (host === "rejected" || host === "static" || revokedTokens.has(token)) {
+    return reply(401, { detailCode: "401 Unauthorized" });
+  }
+  return reply(200, { token });
+};
+
+beforeEach(() => {
+  tokenRequests = {};
+  apiRequests = {};
+});
+
+describe("access tokens", () => {
+  it("are requested once for concurrent callers", async () => {
+    const tenant = resolveTenant("shared");
+    const clients = await Promise.all(Array.from({ length: 5 }, () => getApiClient(tenant)));
+    assert.equal(tokenRequests.shared, 1);
+    assert.equal(new Set(clients).size, 1);
+    await getApiClient(tenant);
+    assert.equal(tokenRequests.shared, 1);
+  });
+});
+
+describe("401 responses", () => {
+  it("refresh the token once for concurrent requests and replay each of them", async () => {
+    const api = await getApiClient(resolveTenant("revoked"));
+    revokedTokens.add("revoked-1");
+    const responses = await Promise.all([api.get("/v3/a"), api.get("/v3/b"), api.get("/v3/c")]);
+    assert.deepEqual(
+      responses.map((response) => response.data.token),
+      ["revoked-2", "revoked-2", "revoked-2"]
+    );
+    assert.equal(tokenRequests.revoked, 2);
+    assert.equal(apiRequests.revoked, 6);
+
+    // Later requests use the new token without another refresh
+    await api.get("/v3/d");
+    assert.equal(tokenRequests.revoked, 2);
+    assert.equal(apiRequests.revoked, 7);
+  });
+
+  it("are retried only once when the new token is rejected too", async () => {
+    const api = await getApiClient(resolveTenant("rejected"));
+    await assert.rejects(api.get("/v3/a"), (error: unknown) => (error as AxiosError).response?.status === 401);
+    assert.equal(tokenRequests.rejected, 2);
+    assert.equal(apiRequests.rejected, 2);
+  });
+
+  it("are returned as is for a pre-issued token, which cannot be renewed", async () => {
+    const api = await getApiClient(resolveTenant("static"));
+    await assert.rejects(api.get("/v3/a"), (error: unknown) => (error as AxiosError).response?.status === 401);
+    assert.equal(tokenRequests.static, undefined);
+    assert.equal(apiRequests.static, 1);
+  });
+});
@@ -0,0 +1,64 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { evaluateTransform, TransformDefinition, TransformSample } from "../src/transforms.js";
+
+const sample: TransformSample = {
+  input: "Jane.Doe",
+  identityAttributes: { department: "Engineering" },
+  accounts: { HR: { employeeType: "contractor" } },
+};
+
+describe("evaluateTransform", () => {
+  const cases: Array<[string, TransformDefinition, unknown]> = [
+    ["lower", { type: "lower" }, "jane.doe"],
+    ["upper with explicit input", { type: "upper", attributes: { input: "abc" } }, "ABC"],
+    ["concat of nested transforms", { type: "concat", attributes: { values: ["x-", { type: "lower" }] } }, "x-jane.doe"],
+    ["substring", { type: "substring", attributes: { begin: 0, end: 4 } }, "Jane"],
+    ["replace", { type: "replace", attributes: { regex: "\\.", replacement: " " } }, "Jane Doe"],
+    [
+      "firstValid skips empty values",
+      { type: "firstValid", attributes: { values: ["", null, { type: "static", attributes: { value: "z" } }] } },
+      "z",
+    ],
+    ["static with variables", { type: "static", attributes: { value: "$a-${b}", a: "1", b: "2" } }, "1-2"],
+    ["static keeps unknown variables", { type: "static", attributes: { value: "$constructor" } }, "$constructor"],
+    [
+      "dateFormat",
+      { type: "dateFormat", attributes: { input: "2024-03-05T10:20:30Z", outputFormat: "yyyy/MM/dd" } },
+      "2024/03/05",
+    ],
+    [
+      "conditional",
+      {
+        type: "conditional",
+        attributes: {
+          expression: "$d eq Engineering",
+          d: { type: "identityAttribute", attributes: { name: "department" } },
+          positiveCondition: "yes",
+          negativeCondition: "no",
+        },
+      },
+      "yes",
+    ],
+    ["lookup hit", { type: "lookup", attributes: { table: { "Jane.Doe": "jd", default: "?" } } }, "jd"],
+    ["lookup default", { type: "lookup", attributes: { input: "other", table: { default: "?" } } }, "?"],
+    ["lookup ignores prototype keys", { type: "lookup", attributes: { input: "constructor", table: { default: "?" } } }, "?"],
+    ["accountAttribute", { type: "accountAttribute", attributes: { sourceName: "HR", attributeName: "employeeType" } }, "contractor"],
+    ["accountAttribute ignores prototype keys", { type: "accountAttribute", attributes: { sourceName: "HR", attributeName: "toString" } }, null],
+    ["identityAttribute", { type: "identityAttribute", attributes: { name: "department" } }, "Engineering"],
+    ["identityAttribute ignores prototype keys", { type: "identityAttribute", attributes: { name: "constructor" } }, null],
+  ];
+  for (const [name, transform, expected] of cases) {
+    it(name, () => assert.deepEqual(evaluateTransform(transform, sample), expected));
+  }
+
+  const failures: Array<[string, TransformDefinition, RegExp]> = [
+    ["lookup without match or default", { type: "lookup", attributes: { input: "constructor", table: { a: 1 } } }, /no entry for "constructor"/],
+    ["accountAttribute on a prototype source name", { type: "accountAttribute", attributes: { sourceName: "constructor", attributeName: "name" } }, /no account on source/],
+    ["substring out of range", { type: "substring", attributes: { begin: 2, end: 40 } }, /out of range/],
+    ["unsupported type", { type: "rule" }, /cannot be previewed locally/],
+  ];
+  for (const [name, transform, message] of failures) {
+    it(name, () => assert.throws(() => evaluateTransform(transform, sample), message));
+  }
+});
@@ -0,0 +1,99 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import {
+  ArgumentValidationError,
+  closestMatch,
+  encodePath,
+  ID_PATTERN,
+  validateArguments,
+} from "../src/validation.js";
+
+const tool: Tool = {
+  name: "list_things",
+  inputSchema: {
+    type: "object",
+    properties: {
+      limit: { type: "number", minimum: 1, maximum: 250 },
+      filters: { type: "string" },
+      status: { type: "string", enum: ["ACTIVE", "INACTIVE"] },
+      id: { type: "string", pattern: ID_PATTERN },
+      items: {
+        type: "array",
+        minItems: 1,
+        items: { type: "object", properties: { id: { type: "string" } }, required: ["id"] },
+      },
+    },
+    required: ["status"],
+  },
+};
+
+// The issues validateArguments reports for the given arguments, as "path: message"
+function issuesFor(args: Record<string, unknown>, schema: Tool = tool): string[] {
+  try {
+    validateArguments(schema, args);
+    return [];
+  } catch (error) {
+    assert.ok(error instanceof ArgumentValidationError);
+    return error.issues.map((issue) => `${issue.path}: ${issue.message}`);
+  }
+}
+
+describe("validateArguments", () => {
+  const cases: Array<[string, Record<string, unknown>, RegExp[]]> = [
+    ["valid arguments", { status: "ACTIVE", limit: 10, id: "2c9180835d2e5168015d32f890ca1581" }, []],
+    ["null optional arguments", { status: "ACTIVE", limit: null }, []],
+    ["missing required", {}, [/^status: is required/]],
+    ["wrong type", { status: "ACTIVE", limit: "10" }, [/^limit: must be of type number, got string "10"/]],
+    ["below minimum", { status: "ACTIVE", limit: 0 }, [/^limit: must be at least 1/]],
+    ["above maximum", { status: "ACTIVE", limit: 500 }, [/^limit: must be at most 250, got 500/]],
+    ["enum", { status: "active" }, [/^status: must be one of ACTIVE, INACTIVE/]],
+    ["ID pattern", { status: "ACTIVE", id: "../accounts" }, [/^id: must be a SailPoint object ID/]],
+    ["unknown argument", { status: "ACTIVE", filter: "x" }, [/^filter: is not a known argument/]],
+    ["empty array", { status: "ACTIVE", items: [] }, [/^items: must have at least 1 item/]],
+    ["nested required", { status: "ACTIVE", items: [{ id: "a" }, {}] }, [/^items\[1\]\.id: is required/]],
+    ["several issues", { limit: 0, filter: "x" }, [/^status/, /^limit/, /^filter/]],
+  ];
+  for (const [name, args, expected] of cases) {
+    it(name, () => {
+      const issues = issuesFor(args);
+      assert.equal(issues.length, expected.length, issues.join("\n"));
+      expected.forEach((pattern, i) => assert.match(issues[i], pattern));
+    });
+  }
+
+  it("suggests the closest argument name and enum value", () => {
+    try {
+      validateArguments(tool, { status: "ACTIV", filter: "x" });
+      assert.fail("expected ArgumentValidationError");
+    } catch (error) {
+      assert.ok(error instanceof ArgumentValidationError);
+      assert.deepEqual(
+        error.issues.map((issue) => issue.suggestion),
+        ["ACTIVE", "filters"]
+      );
+      assert.match(error.message, /^Invalid arguments for list_things; no request was sent:/);
+    }
+  });
+
+  it("rejects arguments to tools that take none", () =>
+    assert.deepEqual(issuesFor({ x: 1 }, { name: "t", inputSchema: { type: "object", properties: {} } }), [
+      "x: is not a known argument (this takes no arguments)",
+    ]));
+});
+
+describe("closestMatch", () => {
+  const cases: Array<[string, string[], string | undefined]> = [
+    ["filter", ["filters", "sorters"], "filters"],
+    ["identity", ["identities", "accounts"], "identities"],
+    ["xyz", ["filters", "sorters"], undefined],
+  ];
+  for (const [value, candidates, expected] of cases) {
+    it(value, () => assert.equal(closestMatch(value, candidates), expected));
+  }
+});
+
+describe("encodePath", () => {
+  it("percent-encodes interpolated values only", () =>
+    assert.equal(encodePath`/v3/accounts/${"a/../b c"}/disable`, "/v3/accounts/a%2F..%2Fb%20c/disable"));
+});